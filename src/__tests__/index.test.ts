@@ -4,10 +4,40 @@ import { ValidationModule } from '../modules/validation';
 import { ApiKeysModule } from '../modules/api-keys';
 import { PlansModule } from '../modules/plans';
 import { UsersModule } from '../modules/users';
+import { NextRequest } from 'next/server';
+import { createAxiosTransport } from '../transports/axios';
+import { revalidateTag } from 'next/cache';
+import { apiKeyFrom } from '../utils/api-key';
+import { getClientIp, identityFrom } from '../utils/identity';
+import {
+  AuthenticationError,
+  InvalidApiKeyError,
+  LimitlyError,
+  NetworkError,
+  NotFoundError,
+  PlanLimitReachedError,
+  RateLimitedError,
+  ResponseValidationError,
+  TimeoutError,
+  ValidationFailedError
+} from '../types';
+import { checkSchema, schema } from '../schemas/schema';
+import { toModel, toWire } from '../utils/models';
+import { MemoryStorageAdapter } from '../storage/memory';
+import { getDenialStatus } from '../utils/denial';
 
-// Mock axios
-jest.mock('axios');
-const mockAxios = require('axios');
+jest.mock('next/cache', () => ({ revalidateTag: jest.fn() }));
+
+// Mock fetch
+const mockFetch = jest.fn();
+global.fetch = mockFetch;
+
+function jsonResponse(data: any, status = 200, headers: Record<string, string> = {}) {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { 'content-type': 'application/json', ...headers }
+  });
+}
 
 describe('Limitly SDK', () => {
   let limitly: Limitly;
@@ -49,7 +79,7 @@ describe('Limitly SDK', () => {
         }
       };
 
-      mockAxios.mockResolvedValueOnce({ data: mockResponse });
+      mockFetch.mockResolvedValueOnce(jsonResponse(mockResponse));
 
       const result = await limitly.validation.validate(
         'user_api_key',
@@ -58,15 +88,15 @@ describe('Limitly SDK', () => {
       );
 
       expect(result).toEqual(mockResponse);
-      expect(mockAxios).toHaveBeenCalledWith(
+      expect(mockFetch).toHaveBeenCalledWith(
         expect.stringContaining('/validate'),
         expect.objectContaining({
           method: 'POST',
-          data: {
+          body: JSON.stringify({
             api_key: 'user_api_key',
             endpoint: '/api/users',
             method: 'GET'
-          }
+          })
         })
       );
     });
@@ -80,7 +110,7 @@ describe('Limitly SDK', () => {
         }
       };
 
-      mockAxios.mockResolvedValueOnce({ data: mockResponse });
+      mockFetch.mockResolvedValueOnce(jsonResponse(mockResponse));
 
       const result = await limitly.validation.validateWithContext(
         'user_api_key',
@@ -90,16 +120,16 @@ describe('Limitly SDK', () => {
       );
 
       expect(result).toEqual(mockResponse);
-      expect(mockAxios).toHaveBeenCalledWith(
+      expect(mockFetch).toHaveBeenCalledWith(
         expect.stringContaining('/validate'),
         expect.objectContaining({
           method: 'POST',
-          data: {
+          body: JSON.stringify({
             api_key: 'user_api_key',
             endpoint: '/api/users',
             method: 'GET',
             context: { userId: 123, sessionId: 'abc123' }
-          }
+          })
         })
       );
     });
@@ -118,12 +148,12 @@ describe('Limitly SDK', () => {
         ]
       };
 
-      mockAxios.mockResolvedValueOnce({ data: mockResponse });
+      mockFetch.mockResolvedValueOnce(jsonResponse(mockResponse));
 
       const result = await limitly.apiKeys.list();
 
       expect(result).toEqual(mockResponse);
-      expect(mockAxios).toHaveBeenCalledWith(
+      expect(mockFetch).toHaveBeenCalledWith(
         expect.stringContaining('/keys'),
         expect.objectContaining({
           method: 'GET'
@@ -142,7 +172,7 @@ describe('Limitly SDK', () => {
         }
       };
 
-      mockAxios.mockResolvedValueOnce({ data: mockResponse });
+      mockFetch.mockResolvedValueOnce(jsonResponse(mockResponse));
 
       const result = await limitly.apiKeys.create({
         name: 'New API Key',
@@ -150,17 +180,59 @@ describe('Limitly SDK', () => {
       });
 
       expect(result).toEqual(mockResponse);
-      expect(mockAxios).toHaveBeenCalledWith(
+      expect(mockFetch).toHaveBeenCalledWith(
         expect.stringContaining('/keys'),
         expect.objectContaining({
           method: 'POST',
-          data: {
+          body: JSON.stringify({
             name: 'New API Key',
             user_id: 123
+          })
+        })
+      );
+    });
+
+    it('should rotate an API key with a grace period', async () => {
+      const mockResponse = {
+        success: true,
+        data: {
+          id: 'key1',
+          name: 'Test Key 1',
+          api_key: 'rotated_api_key_string',
+          status: 'active',
+          rotation: {
+            started_at: '2024-01-01T00:00:00.000Z',
+            grace_period_ends_at: '2024-01-02T00:00:00.000Z',
+            previous_key_prefix: 'lk_old'
           }
+        }
+      };
+
+      mockFetch.mockResolvedValueOnce(jsonResponse(mockResponse));
+
+      const result = await limitly.apiKeys.rotate('key1', { graceSeconds: 86400 });
+
+      expect(result.data?.rotation?.grace_period_ends_at).toBe('2024-01-02T00:00:00.000Z');
+      expect(mockFetch).toHaveBeenCalledWith(
+        expect.stringContaining('/keys/key1/rotate'),
+        expect.objectContaining({
+          method: 'POST',
+          body: JSON.stringify({ grace_seconds: 86400 })
         })
       );
     });
+
+    it('should complete and cancel rotations', async () => {
+      mockFetch.mockImplementation(async () => jsonResponse({ success: true, data: { id: 'key1', rotation: null } }));
+
+      await limitly.apiKeys.completeRotation('key1');
+      await limitly.apiKeys.cancelRotation('key2');
+
+      expect(mockFetch.mock.calls[0][0]).toMatch(/\/keys\/key1\/rotate\/complete$/);
+      expect(mockFetch.mock.calls[1][0]).toMatch(/\/keys\/key2\/rotate\/cancel$/);
+      expect(revalidateTag).toHaveBeenCalledWith('limitly:keys:key2');
+      mockFetch.mockReset();
+    });
   });
 
   describe('Plans', () => {
@@ -177,12 +249,12 @@ describe('Limitly SDK', () => {
         ]
       };
 
-      mockAxios.mockResolvedValueOnce({ data: mockResponse });
+      mockFetch.mockResolvedValueOnce(jsonResponse(mockResponse));
 
       const result = await limitly.plans.list();
 
       expect(result).toEqual(mockResponse);
-      expect(mockAxios).toHaveBeenCalledWith(
+      expect(mockFetch).toHaveBeenCalledWith(
         expect.stringContaining('/plans'),
         expect.objectContaining({
           method: 'GET'
@@ -204,12 +276,12 @@ describe('Limitly SDK', () => {
         ]
       };
 
-      mockAxios.mockResolvedValueOnce({ data: mockResponse });
+      mockFetch.mockResolvedValueOnce(jsonResponse(mockResponse));
 
       const result = await limitly.users.list();
 
       expect(result).toEqual(mockResponse);
-      expect(mockAxios).toHaveBeenCalledWith(
+      expect(mockFetch).toHaveBeenCalledWith(
         expect.stringContaining('/users'),
         expect.objectContaining({
           method: 'GET'
@@ -218,12 +290,121 @@ describe('Limitly SDK', () => {
     });
   });
 
+  describe('Caching', () => {
+    it('should pass revalidate and tags to the Next.js data cache', async () => {
+      mockFetch.mockResolvedValueOnce(jsonResponse({ success: true, data: [] }));
+
+      await limitly.plans.list({ revalidate: 3600, tags: ['pricing'] });
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        expect.stringContaining('/plans'),
+        expect.objectContaining({
+          next: { revalidate: 3600, tags: ['limitly:plans', 'pricing'] }
+        })
+      );
+    });
+
+    it('should use the client configuration as defaults', async () => {
+      const cached = new Limitly({
+        apiKey: 'test_api_key',
+        cache: true,
+        revalidate: 60,
+        tags: ['dashboard']
+      });
+      mockFetch
+        .mockResolvedValueOnce(jsonResponse({ success: true, data: [] }))
+        .mockResolvedValueOnce(jsonResponse({ success: true, data: {} }));
+
+      await cached.users.listWithUsage();
+      await cached.apiKeys.getUsage('key1', { cache: false });
+
+      expect(mockFetch.mock.calls[0][1]).toEqual(expect.objectContaining({
+        next: { revalidate: 60, tags: ['limitly:users', 'dashboard'] }
+      }));
+      expect(mockFetch.mock.calls[1][1]).toEqual(expect.objectContaining({
+        cache: 'no-store'
+      }));
+      expect(mockFetch.mock.calls[1][1]).not.toHaveProperty('next');
+    });
+
+    it('should revalidate affected tags after mutations', async () => {
+      mockFetch.mockResolvedValueOnce(jsonResponse({ success: true, data: {} }));
+
+      await limitly.apiKeys.update('key1', { status: 'inactive' });
+
+      expect(revalidateTag).toHaveBeenCalledWith('limitly:keys');
+      expect(revalidateTag).toHaveBeenCalledWith('limitly:keys:key1');
+    });
+
+    it('should not revalidate tags when a mutation fails', async () => {
+      mockFetch.mockResolvedValueOnce(jsonResponse({ error: 'Not found' }, 404));
+
+      await expect(limitly.plans.delete('plan1')).rejects.toThrow('Not found');
+      expect(revalidateTag).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Next.js Middleware', () => {
+    it('should pass through requests outside the matcher', async () => {
+      const middleware = limitly.nextMiddleware({ matcher: '/api/:path*' });
+
+      const response = await middleware(new NextRequest('http://localhost:3000/dashboard'));
+
+      expect(response.headers.get('x-middleware-next')).toBe('1');
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should reject requests without an API key', async () => {
+      const middleware = limitly.nextMiddleware({ matcher: '/api/:path*' });
+
+      const response = await middleware(new NextRequest('http://localhost:3000/api/users'));
+
+      expect(response.status).toBe(401);
+    });
+
+    it('should allow requests within the limit', async () => {
+      mockFetch.mockResolvedValueOnce(jsonResponse({ success: true }));
+      const middleware = limitly.nextMiddleware({ matcher: '/api/:path*' });
+
+      const response = await middleware(new NextRequest('http://localhost:3000/api/users?page=2', {
+        headers: { authorization: 'Bearer user_api_key' }
+      }));
+
+      expect(response.headers.get('x-middleware-next')).toBe('1');
+      expect(mockFetch).toHaveBeenCalledWith(
+        expect.stringContaining('/validate'),
+        expect.objectContaining({
+          body: JSON.stringify({
+            api_key: 'user_api_key',
+            endpoint: '/api/users',
+            method: 'GET'
+          })
+        })
+      );
+    });
+
+    it('should block requests over the limit', async () => {
+      mockFetch.mockResolvedValueOnce(jsonResponse({
+        success: false,
+        details: { current_usage: 100, limit: 100 }
+      }));
+      const middleware = limitly.nextMiddleware();
+
+      const response = await middleware(new NextRequest('http://localhost:3000/api/users', {
+        headers: { authorization: 'Bearer user_api_key' }
+      }));
+
+      expect(response.status).toBe(429);
+      expect(await response.json()).toEqual({
+        error: 'Rate limit exceeded',
+        details: { current_usage: 100, limit: 100 }
+      });
+    });
+  });
+
   describe('Error Handling', () => {
     it('should handle network errors', async () => {
-      const networkError: any = new Error('Network error');
-      networkError.request = {};
-      
-      mockAxios.mockRejectedValueOnce(networkError);
+      mockFetch.mockRejectedValueOnce(new TypeError('Network error'));
 
       await expect(
         limitly.validation.validate('invalid_key', '/api/test', 'GET')
@@ -231,19 +412,1527 @@ describe('Limitly SDK', () => {
     });
 
     it('should handle server errors', async () => {
-      const serverError = {
-        response: {
+      mockFetch.mockResolvedValueOnce(jsonResponse({ error: 'Invalid API key' }, 401));
+
+      await expect(
+        limitly.validation.validate('invalid_key', '/api/test', 'GET')
+      ).rejects.toThrow('Invalid API key');
+    });
+
+    it('should handle timeouts', async () => {
+      mockFetch.mockImplementationOnce((_url: string, init: RequestInit) =>
+        new Promise((_resolve, reject) => {
+          init.signal?.addEventListener('abort', () => reject(new Error('aborted')));
+        })
+      );
+
+      await expect(
+        limitly.validation.validate('user_api_key', '/api/test', 'GET', { timeout: 10 })
+      ).rejects.toThrow('Network error: timeout of 10ms exceeded');
+    });
+
+    it('should map error responses to typed errors', async () => {
+      const cases = [
+        [{ error: 'Invalid API key' }, 401, InvalidApiKeyError, 'invalid_api_key'],
+        [{ error: 'Forbidden' }, 403, AuthenticationError, 'authentication_failed'],
+        [{ error: 'API key not found' }, 404, NotFoundError, 'not_found'],
+        [{ error: 'name is required' }, 422, ValidationFailedError, 'validation_failed'],
+        [{ error: 'API key limit reached' }, 402, PlanLimitReachedError, 'plan_limit_reached'],
+        [{ error: 'Too many requests' }, 429, RateLimitedError, 'rate_limited'],
+        [{ error: 'Internal error' }, 500, LimitlyError, 'server_error']
+      ] as const;
+
+      for (const [body, status, ErrorClass, code] of cases) {
+        mockFetch.mockResolvedValueOnce(jsonResponse(body, status));
+
+        const error = await limitly.validation.validate('user_api_key', '/api/test', 'GET').catch((e) => e);
+
+        expect(error).toBeInstanceOf(ErrorClass);
+        expect(error).toBeInstanceOf(LimitlyError);
+        expect(error).toEqual(expect.objectContaining({ code, statusCode: status, response: body }));
+      }
+    });
+
+    it('should prefer the payload code and expose the request ID and retry hint', async () => {
+      mockFetch.mockResolvedValueOnce(jsonResponse(
+        { error: 'Upgrade your plan to create more API keys', code: 'plan_limit_reached' },
+        403,
+        { 'x-request-id': 'req_123', 'retry-after': '30' }
+      ));
+
+      const error = await limitly.apiKeys.create({ name: 'Key' }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(PlanLimitReachedError);
+      expect(error.requestId).toBe('req_123');
+      expect(error.retryAfter).toBe(30);
+    });
+
+    it('should distinguish network errors from timeouts', async () => {
+      mockFetch.mockRejectedValueOnce(new TypeError('fetch failed'));
+      const networkError = await limitly.validation.validate('user_api_key', '/api/test', 'GET').catch((e) => e);
+
+      mockFetch.mockImplementationOnce((_url: string, init: RequestInit) =>
+        new Promise((_resolve, reject) => {
+          init.signal?.addEventListener('abort', () => reject(new Error('aborted')));
+        })
+      );
+      const timeoutError = await limitly.validation
+        .validate('user_api_key', '/api/test', 'GET', { timeout: 10 })
+        .catch((e) => e);
+
+      expect(networkError).toBeInstanceOf(NetworkError);
+      expect(networkError).toEqual(expect.objectContaining({ code: 'network_error', statusCode: 0 }));
+      expect(timeoutError).toBeInstanceOf(TimeoutError);
+      expect(timeoutError.code).toBe('timeout');
+    });
+  });
+
+  describe('Rate Limit Headers', () => {
+    const periodEnd = new Date(Date.now() + 60000).toISOString();
+    const details = {
+      current_usage: 40,
+      limit: 100,
+      plan_name: 'Basic Plan',
+      period_start: '2024-01-01T00:00:00.000Z',
+      period_end: periodEnd
+    };
+
+    it('should add headers to allowed responses', async () => {
+      mockFetch.mockResolvedValueOnce(jsonResponse({ success: true, details }));
+      const wrapped = limitly.withRateLimit(async () => Response.json({ ok: true }));
+
+      const response = await wrapped(new Request('http://localhost:3000/api/users', {
+        headers: { authorization: 'Bearer user_api_key' }
+      }));
+
+      expect(response.headers.get('RateLimit-Limit')).toBe('100');
+      expect(response.headers.get('RateLimit-Remaining')).toBe('60');
+      expect(Number(response.headers.get('RateLimit-Reset'))).toBeGreaterThan(55);
+      expect(response.headers.get('X-RateLimit-Reset')).toBe(String(Math.ceil(Date.parse(periodEnd) / 1000)));
+      expect(response.headers.get('Retry-After')).toBeNull();
+    });
+
+    it('should add Retry-After to blocked responses', async () => {
+      mockFetch.mockResolvedValueOnce(jsonResponse({
+        success: false,
+        details: { ...details, current_usage: 100 }
+      }));
+      const middleware = limitly.nextMiddleware({ rateLimitHeaders: 'draft' });
+
+      const response = await middleware(new NextRequest('http://localhost:3000/api/users', {
+        headers: { authorization: 'Bearer user_api_key' }
+      }));
+
+      expect(response.status).toBe(429);
+      expect(response.headers.get('RateLimit-Remaining')).toBe('0');
+      expect(response.headers.get('X-RateLimit-Remaining')).toBeNull();
+      expect(Number(response.headers.get('Retry-After'))).toBeGreaterThan(55);
+    });
+
+    it('should set headers on Express-style responses', async () => {
+      mockFetch.mockResolvedValueOnce(jsonResponse({ success: true, details }));
+      const res = { setHeader: jest.fn() };
+      const next = jest.fn();
+      const middleware = limitly.createMiddleware({ rateLimitHeaders: 'legacy' });
+
+      await middleware({ headers: { authorization: 'Bearer user_api_key' }, url: '/api/users', method: 'GET' }, res, next);
+
+      expect(res.setHeader).toHaveBeenCalledWith('X-RateLimit-Limit', '100');
+      expect(res.setHeader).not.toHaveBeenCalledWith('RateLimit-Limit', expect.anything());
+      expect(next).toHaveBeenCalled();
+    });
+  });
+
+  describe('Failure Modes', () => {
+    it('should fail open when validation is unavailable', async () => {
+      const onDegraded = jest.fn();
+      const client = new Limitly({
+        apiKey: 'test_api_key',
+        validation: { failureMode: 'open', onDegraded }
+      });
+      mockFetch.mockRejectedValueOnce(new TypeError('fetch failed'));
+
+      const result = await client.validation.validate('user_api_key', '/api/users', 'GET');
+
+      expect(result).toEqual(expect.objectContaining({ success: true, degraded: true }));
+      expect(onDegraded).toHaveBeenCalledWith(
+        expect.objectContaining({ statusCode: 0 }),
+        { api_key: 'user_api_key', endpoint: '/api/users', method: 'GET' }
+      );
+    });
+
+    it('should not fail open on definitive API errors', async () => {
+      const client = new Limitly({
+        apiKey: 'test_api_key',
+        validation: { failureMode: 'open' }
+      });
+      mockFetch.mockResolvedValueOnce(jsonResponse({ error: 'Invalid API key' }, 401));
+
+      await expect(
+        client.validation.validate('invalid_key', '/api/users', 'GET')
+      ).rejects.toThrow('Invalid API key');
+    });
+
+    it('should fail closed in withRateLimit by default', async () => {
+      const handler = jest.fn(async () => Response.json({ ok: true }));
+      const wrapped = limitly.withRateLimit(handler);
+      mockFetch.mockResolvedValueOnce(jsonResponse({ error: 'Unavailable' }, 503));
+      jest.spyOn(console, 'error').mockImplementationOnce(() => undefined);
+
+      const response = await wrapped(new Request('http://localhost:3000/api/users', {
+        headers: { authorization: 'Bearer user_api_key' }
+      }));
+
+      expect(response.status).toBe(500);
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('should apply a custom failure policy in withRateLimit', async () => {
+      const onDegraded = jest.fn();
+      const handler = jest.fn(async () => Response.json({ ok: true }));
+      const wrapped = limitly.withRateLimit(handler, {
+        failureMode: (_error, request) => request.method === 'GET',
+        onDegraded
+      });
+      mockFetch.mockResolvedValueOnce(jsonResponse({ error: 'Unavailable' }, 503));
+
+      const response = await wrapped(new Request('http://localhost:3000/api/users', {
+        headers: { authorization: 'Bearer user_api_key' }
+      }));
+
+      expect(response.status).toBe(200);
+      expect(handler).toHaveBeenCalled();
+      expect(onDegraded).toHaveBeenCalledWith(
+        expect.objectContaining({ statusCode: 503 }),
+        expect.any(Request)
+      );
+    });
+  });
+
+  describe('Decision Cache', () => {
+    let cached: Limitly;
+
+    beforeEach(() => {
+      cached = new Limitly({
+        apiKey: 'test_api_key',
+        validation: { cache: { allowedTtl: 60000 } }
+      });
+    });
+
+    it('should reuse allowed decisions while headroom remains', async () => {
+      mockFetch.mockImplementation(async () => jsonResponse({
+        success: true,
+        details: {
+          current_usage: 98,
+          limit: 100,
+          plan_name: 'Basic Plan',
+          period_start: '2024-01-01T00:00:00.000Z',
+          period_end: '2999-01-31T23:59:59.999Z'
+        }
+      }));
+
+      await cached.validation.validate('user_api_key', '/api/users', 'GET');
+      const second = await cached.validation.validate('user_api_key', '/api/users', 'GET');
+      const third = await cached.validation.validate('user_api_key', '/api/users', 'GET');
+      await cached.validation.validate('user_api_key', '/api/users', 'GET');
+      await cached.validation.validate('user_api_key', '/api/users', 'POST');
+
+      expect(second).toEqual(expect.objectContaining({ cached: true }));
+      expect(second.details?.current_usage).toBe(99);
+      expect(third.details?.current_usage).toBe(100);
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+      mockFetch.mockReset();
+    });
+
+    it('should serve blocked decisions until the end of the period', async () => {
+      const blocked = {
+        success: false,
+        details: {
+          current_usage: 100,
+          limit: 100,
+          plan_name: 'Basic Plan',
+          period_start: '2024-01-01T00:00:00.000Z',
+          period_end: '2999-01-31T23:59:59.999Z'
+        }
+      };
+      mockFetch.mockResolvedValueOnce(jsonResponse(blocked));
+
+      await cached.validation.validate('user_api_key', '/api/users', 'GET');
+      const result = await cached.validation.validate('user_api_key', '/api/users', 'GET');
+
+      expect(result).toEqual({ ...blocked, cached: true });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should never allow more requests than the plan limit across cache refreshes', async () => {
+      let now = Date.parse('2024-01-01T00:00:00.000Z');
+      const clock = jest.spyOn(Date, 'now').mockImplementation(() => now);
+      const client = new Limitly({ apiKey: 'test_api_key', validation: { cache: true } });
+      // Limitly counting the cost of every validation against a limit of 100
+      let counted = 0;
+      mockFetch.mockImplementation(async (_url: string, init: RequestInit) => {
+        const { cost } = JSON.parse(String(init.body)) as { cost?: number };
+        const success = counted + (cost ?? 1) <= 100;
+        counted += success ? cost ?? 1 : 0;
+        return jsonResponse({
+          success,
+          ...(!success && { reason: 'rate_limit_exceeded' }),
+          details: {
+            current_usage: counted,
+            limit: 100,
+            plan_name: 'Basic Plan',
+            period_start: '2024-01-01T00:00:00.000Z',
+            period_end: '2024-01-31T23:59:59.999Z'
+          }
+        });
+      });
+
+      // 100 requests per second for 20 seconds
+      let allowed = 0;
+      for (let i = 0; i < 2000; i++) {
+        if ((await client.validation.validate('user_api_key', '/api/users', 'GET')).success) {
+          allowed++;
+        }
+        now += 10;
+      }
+      clock.mockRestore();
+      mockFetch.mockReset();
+
+      expect(allowed).toBeLessThanOrEqual(100);
+      expect(counted).toBe(allowed);
+    });
+
+    it('should not cache decisions without usage details', async () => {
+      mockFetch
+        .mockResolvedValueOnce(jsonResponse({ success: false, error: 'Invalid API key' }))
+        .mockResolvedValueOnce(jsonResponse({ success: false, error: 'Invalid API key' }));
+
+      await cached.validation.validate('invalid_key', '/api/users', 'GET');
+      await cached.validation.validate('invalid_key', '/api/users', 'GET');
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('Validation Modes', () => {
+    const plan = { name: 'Local Plan', max_requests: 1, request_period: 'day' as const };
+
+    it('should validate locally without network calls', async () => {
+      const local = new Limitly({
+        apiKey: 'test_api_key',
+        validation: { mode: 'local', local: { plan } }
+      });
+
+      const first = await local.validation.validate('user_api_key', '/api/users', 'GET');
+      const second = await local.validation.validate('user_api_key', '/api/users', 'GET');
+
+      expect(first.success).toBe(true);
+      expect(second.success).toBe(false);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should fall back to the local limiter in hybrid mode', async () => {
+      const onDegraded = jest.fn();
+      const hybrid = new Limitly({
+        apiKey: 'test_api_key',
+        validation: { mode: 'hybrid', local: { plan }, onDegraded }
+      });
+      mockFetch
+        .mockResolvedValueOnce(jsonResponse({ success: true }))
+        .mockRejectedValueOnce(new TypeError('fetch failed'));
+
+      const remote = await hybrid.validation.validate('user_api_key', '/api/users', 'GET');
+      const fallback = await hybrid.validation.validate('user_api_key', '/api/users', 'GET');
+
+      expect(remote).toEqual({ success: true });
+      expect(fallback).toEqual(expect.objectContaining({ success: true, degraded: true }));
+      expect(fallback.details?.plan_name).toBe('Local Plan');
+      expect(onDegraded).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Retries', () => {
+    let retrying: Limitly;
+
+    beforeEach(() => {
+      retrying = new Limitly({
+        apiKey: 'test_api_key',
+        retry: { baseDelay: 0, jitter: false }
+      });
+    });
+
+    it('should retry idempotent requests on transient errors', async () => {
+      mockFetch
+        .mockResolvedValueOnce(jsonResponse({ error: 'Unavailable' }, 503))
+        .mockRejectedValueOnce(new TypeError('fetch failed'))
+        .mockResolvedValueOnce(jsonResponse({ success: true, data: [] }));
+
+      const result = await retrying.plans.list();
+
+      expect(result).toEqual({ success: true, data: [] });
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('should give up after the maximum number of attempts', async () => {
+      mockFetch.mockImplementation(async () => jsonResponse({ error: 'Unavailable' }, 503));
+
+      await expect(retrying.users.list()).rejects.toThrow('Unavailable');
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+      mockFetch.mockReset();
+    });
+
+    it('should honor the Retry-After header', async () => {
+      const client = new Limitly({
+        apiKey: 'test_api_key',
+        retry: { baseDelay: 60000, maxDelay: 60000 }
+      });
+      mockFetch
+        .mockResolvedValueOnce(jsonResponse({ error: 'Too many requests' }, 429, { 'retry-after': '0' }))
+        .mockResolvedValueOnce(jsonResponse({ success: true, data: [] }));
+
+      await client.apiKeys.list();
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should only retry POST requests when opted in', async () => {
+      mockFetch
+        .mockResolvedValueOnce(jsonResponse({ error: 'Unavailable' }, 503))
+        .mockResolvedValueOnce(jsonResponse({ error: 'Unavailable' }, 503))
+        .mockResolvedValueOnce(jsonResponse({ success: true }));
+
+      await expect(
+        retrying.validation.validate('user_api_key', '/api/users', 'GET')
+      ).rejects.toThrow('Unavailable');
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+
+      const result = await retrying.validation.validate('user_api_key', '/api/users', 'GET', {
+        retry: { retryNonIdempotent: true }
+      });
+
+      expect(result).toEqual({ success: true });
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('Axios Transport', () => {
+    it('should send requests through the given axios instance', async () => {
+      const axios: any = jest.fn().mockResolvedValueOnce({
+        status: 200,
+        statusText: 'OK',
+        headers: {},
+        data: { success: true }
+      });
+      const client = new Limitly({
+        apiKey: 'test_api_key',
+        transport: createAxiosTransport(axios)
+      });
+
+      const result = await client.validation.validate('user_api_key', '/api/users', 'GET');
+
+      expect(result).toEqual({ success: true });
+      expect(axios).toHaveBeenCalledWith(
+        expect.stringContaining('/validate'),
+        expect.objectContaining({
+          method: 'POST',
+          data: {
+            api_key: 'user_api_key',
+            endpoint: '/api/users',
+            method: 'GET'
+          }
+        })
+      );
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should map errors the same way as the fetch transport', async () => {
+      const timeoutError: any = new Error('timeout of 10ms exceeded');
+      timeoutError.code = 'ECONNABORTED';
+      const axios: any = jest.fn()
+        .mockResolvedValueOnce({
           status: 401,
           statusText: 'Unauthorized',
+          headers: {},
           data: { error: 'Invalid API key' }
-        }
-      };
-      
-      mockAxios.mockRejectedValueOnce(serverError);
+        })
+        .mockRejectedValueOnce(timeoutError);
+      const client = new Limitly({
+        apiKey: 'test_api_key',
+        transport: createAxiosTransport(axios)
+      });
 
       await expect(
-        limitly.validation.validate('invalid_key', '/api/test', 'GET')
+        client.validation.validate('invalid_key', '/api/test', 'GET')
       ).rejects.toThrow('Invalid API key');
+      await expect(
+        client.validation.validate('user_api_key', '/api/test', 'GET', { timeout: 10 })
+      ).rejects.toThrow('Network error: timeout of 10ms exceeded');
+    });
+  });
+
+  describe('API Key Extraction', () => {
+    const allowed = { success: true };
+
+    it('should parse Bearer tokens strictly and case-insensitively', async () => {
+      const bearer = apiKeyFrom.bearer();
+      const request = (authorization: string) => new Request('http://localhost:3000/api/users', {
+        headers: { authorization }
+      });
+
+      expect(await bearer(request('bearer user_api_key'))).toBe('user_api_key');
+      expect(await bearer(request('BEARER  user_api_key'))).toBe('user_api_key');
+      expect(await bearer(request('user_api_key'))).toBeUndefined();
+      expect(await bearer(request('Bearer'))).toBeUndefined();
+      expect(await bearer(request('Bearer two tokens'))).toBeUndefined();
+    });
+
+    it('should read keys from query params, cookies and basic auth', async () => {
+      const request = new Request('http://localhost:3000/api/users?api_key=query_key', {
+        headers: {
+          cookie: 'theme=dark; limitly_key=cookie_key',
+          authorization: `Basic ${btoa('user:basic_key')}`
+        }
+      });
+
+      expect(await apiKeyFrom.query()(request)).toBe('query_key');
+      expect(await apiKeyFrom.cookie('limitly_key')(request)).toBe('cookie_key');
+      expect(await apiKeyFrom.basicAuth()(request)).toBe('basic_key');
+      expect(await apiKeyFrom.query()({ query: { api_key: 'express_key' } })).toBe('express_key');
+    });
+
+    it('should keep custom header values untouched', async () => {
+      mockFetch.mockResolvedValueOnce(jsonResponse(allowed));
+      const wrapped = limitly.withRateLimit(async () => Response.json({ ok: true }), {
+        apiKeyHeader: 'x-api-key'
+      });
+
+      await wrapped(new Request('http://localhost:3000/api/users', {
+        headers: { 'x-api-key': 'Bearer in key' }
+      }));
+
+      expect(JSON.parse(mockFetch.mock.calls[0][1].body).api_key).toBe('Bearer in key');
+    });
+
+    it('should try chained strategies in order', async () => {
+      mockFetch.mockImplementation(async () => jsonResponse(allowed));
+      const middleware = limitly.nextMiddleware({
+        extractApiKey: [apiKeyFrom.header('x-api-key'), apiKeyFrom.cookie('limitly_key')]
+      });
+
+      const fromCookie = await middleware(new NextRequest('http://localhost:3000/api/users', {
+        headers: { cookie: 'limitly_key=cookie_key' }
+      }));
+      const missing = await middleware(new NextRequest('http://localhost:3000/api/users', {
+        headers: { authorization: 'Bearer user_api_key' }
+      }));
+
+      expect(fromCookie.status).toBe(200);
+      expect(JSON.parse(mockFetch.mock.calls[0][1].body).api_key).toBe('cookie_key');
+      expect(missing.status).toBe(401);
+      mockFetch.mockReset();
+    });
+
+    it('should keep malformed cookie values instead of failing the request', async () => {
+      mockFetch.mockResolvedValueOnce(jsonResponse(allowed));
+      const wrapped = limitly.withRateLimit(async () => Response.json({ ok: true }), {
+        extractApiKey: [apiKeyFrom.header('x-api-key'), apiKeyFrom.cookie('k')]
+      });
+
+      const response = await wrapped(new Request('http://localhost:3000/api/users', {
+        headers: { cookie: 'k=%E0%A4%A' }
+      }));
+
+      expect(await apiKeyFrom.cookie('k')(new Request('http://localhost:3000', {
+        headers: { cookie: 'k=%E0%A4%A' }
+      }))).toBe('%E0%A4%A');
+      expect(response.status).toBe(200);
+      expect(JSON.parse(mockFetch.mock.calls[0][1].body).api_key).toBe('%E0%A4%A');
+    });
+
+    it('should accept a custom extractor in createMiddleware', async () => {
+      mockFetch.mockResolvedValueOnce(jsonResponse(allowed));
+      const next = jest.fn();
+      const middleware = limitly.createMiddleware({
+        extractApiKey: (req) => req.body?.apiKey
+      });
+
+      await middleware({ headers: {}, body: { apiKey: 'body_key' }, url: '/api/users', method: 'POST' }, {}, next);
+
+      expect(JSON.parse(mockFetch.mock.calls[0][1].body).api_key).toBe('body_key');
+      expect(next).toHaveBeenCalled();
+    });
+  });
+
+  describe('Endpoint Normalization', () => {
+    const allowed = { success: true };
+    const sentEndpoint = (call = 0) => JSON.parse(mockFetch.mock.calls[call][1].body).endpoint;
+
+    beforeEach(() => {
+      mockFetch.mockImplementation(async () => jsonResponse(allowed));
+    });
+
+    afterEach(() => {
+      mockFetch.mockReset();
+    });
+
+    it('should map paths to configured route patterns', async () => {
+      const middleware = limitly.nextMiddleware({
+        routes: ['/api/users/[id]', '/api/docs/[[...slug]]', '/api/files/[...path]']
+      });
+      const request = (path: string) => new NextRequest(`http://localhost:3000${path}`, {
+        headers: { authorization: 'Bearer user_api_key' }
+      });
+
+      await middleware(request('/api/users/123/'));
+      await middleware(request('/api/docs'));
+      await middleware(request('/api/files/a/b.txt'));
+      await middleware(request('/api/plans/456'));
+
+      expect(sentEndpoint(0)).toBe('/api/users/[id]');
+      expect(sentEndpoint(1)).toBe('/api/docs/[[...slug]]');
+      expect(sentEndpoint(2)).toBe('/api/files/[...path]');
+      expect(sentEndpoint(3)).toBe('/api/plans/456');
+    });
+
+    it('should derive routes from App Router segment params', async () => {
+      const wrapped = limitly.withRateLimit(async () => Response.json({ ok: true }));
+
+      await wrapped(new Request('http://localhost:3000/api/users/123/files/a/b', {
+        headers: { authorization: 'Bearer user_api_key' }
+      }), { params: Promise.resolve({ id: '123', path: ['a', 'b'] }) });
+
+      expect(sentEndpoint()).toBe('/api/users/[id]/files/[...path]');
+    });
+
+    it('should strip query strings, trailing slashes and base paths', async () => {
+      const middleware = limitly.createMiddleware({ basePath: '/app' });
+
+      await middleware(
+        { headers: { authorization: 'Bearer user_api_key' }, url: '/app/api/users/?page=2', method: 'GET' },
+        {},
+        jest.fn()
+      );
+
+      expect(sentEndpoint()).toBe('/api/users');
+    });
+
+    it('should use a custom normalizer', async () => {
+      const wrapped = limitly.withRateLimit(async () => Response.json({ ok: true }), {
+        normalizeEndpoint: (pathname) => pathname.replace(/\/\d+/g, '/:id')
+      });
+
+      await wrapped(new Request('http://localhost:3000/api/users/123?expand=true', {
+        headers: { authorization: 'Bearer user_api_key' }
+      }));
+
+      expect(sentEndpoint()).toBe('/api/users/:id');
+    });
+  });
+
+  describe('Pagination', () => {
+    const requestedUrl = (call: number) => new URL(mockFetch.mock.calls[call][0]);
+
+    it('should send pagination parameters on list methods', async () => {
+      mockFetch.mockImplementation(async () => jsonResponse({ success: true, data: [] }));
+
+      await limitly.apiKeys.list({ limit: 50, offset: 100 });
+      await limitly.users.listWithUsage({ cursor: 'abc' });
+
+      expect(requestedUrl(0).search).toBe('?limit=50&offset=100');
+      expect(requestedUrl(1).searchParams.get('cursor')).toBe('abc');
+      mockFetch.mockReset();
+    });
+
+    it('should iterate over pages using cursors', async () => {
+      mockFetch
+        .mockResolvedValueOnce(jsonResponse({ success: true, data: [{ id: 'key1' }, { id: 'key2' }], next_cursor: 'c2' }))
+        .mockResolvedValueOnce(jsonResponse({ success: true, data: [{ id: 'key3' }], next_cursor: null, has_more: false }));
+
+      const ids: string[] = [];
+      for await (const key of limitly.apiKeys.iterate({ limit: 2 })) {
+        ids.push(key.id);
+      }
+
+      expect(ids).toEqual(['key1', 'key2', 'key3']);
+      expect(requestedUrl(0).search).toBe('?limit=2');
+      expect(requestedUrl(1).search).toBe('?limit=2&cursor=c2');
+    });
+
+    it('should iterate over pages using offsets and count', async () => {
+      mockFetch
+        .mockResolvedValueOnce(jsonResponse({ success: true, data: [{ user_id: 1 }, { user_id: 2 }], count: 3 }))
+        .mockResolvedValueOnce(jsonResponse({ success: true, data: [{ user_id: 3 }], count: 3 }));
+
+      const ids: number[] = [];
+      for await (const user of limitly.users.iterate({ limit: 2 })) {
+        ids.push(user.user_id);
+      }
+
+      expect(ids).toEqual([1, 2, 3]);
+      expect(requestedUrl(1).search).toBe('?limit=2&offset=2');
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should fetch pages lazily', async () => {
+      mockFetch.mockResolvedValueOnce(jsonResponse({ success: true, data: [{ id: 'plan1' }], has_more: true }));
+
+      for await (const plan of limitly.plans.iterate()) {
+        expect(plan.id).toBe('plan1');
+        break;
+      }
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Filtering and Sorting', () => {
+    const requestedUrl = (call: number) => new URL(mockFetch.mock.calls[call][0]);
+
+    beforeEach(() => {
+      mockFetch.mockImplementation(async () => jsonResponse({ success: true, data: [] }));
+    });
+
+    afterEach(() => {
+      mockFetch.mockReset();
+    });
+
+    it('should serialize API key filters', async () => {
+      await limitly.apiKeys.list({
+        status: ['active', 'inactive'],
+        user_id: 42,
+        search: 'prod key',
+        last_used_from: new Date('2024-01-01T00:00:00.000Z'),
+        last_used_to: '2024-02-01',
+        sort: 'last_used_at',
+        order: 'desc',
+        limit: 20
+      });
+
+      const params = requestedUrl(0).searchParams;
+      expect(params.getAll('status')).toEqual(['active', 'inactive']);
+      expect(params.get('user_id')).toBe('42');
+      expect(params.get('search')).toBe('prod key');
+      expect(params.get('last_used_from')).toBe('2024-01-01T00:00:00.000Z');
+      expect(params.get('last_used_to')).toBe('2024-02-01');
+      expect(params.get('sort')).toBe('last_used_at');
+      expect(params.get('order')).toBe('desc');
+      expect(params.get('limit')).toBe('20');
+      expect(params.has('plan_id')).toBe(false);
+    });
+
+    it('should serialize user and plan filters', async () => {
+      await limitly.users.listWithUsage({ is_disabled: false, plan_id: 'plan1', email: '@example.com', sort: 'email' });
+      await limitly.plans.list({ is_active: true, sort: 'max_requests', order: 'asc' });
+
+      expect(requestedUrl(0).search).toBe('?is_disabled=false&plan_id=plan1&email=%40example.com&sort=email');
+      expect(requestedUrl(1).search).toBe('?is_active=true&sort=max_requests&order=asc');
+    });
+
+    it('should keep filters across iterated pages', async () => {
+      mockFetch
+        .mockResolvedValueOnce(jsonResponse({ success: true, data: [{ id: 'key1' }], next_cursor: 'c2' }))
+        .mockResolvedValueOnce(jsonResponse({ success: true, data: [], has_more: false }));
+
+      for await (const key of limitly.apiKeys.iterate({ status: 'active', plan_id: 'plan1' })) {
+        expect(key.id).toBe('key1');
+      }
+
+      expect(requestedUrl(1).search).toBe('?cursor=c2&status=active&plan_id=plan1');
+    });
+  });
+
+  describe('Scoped API Keys', () => {
+    const forbidden = {
+      success: false,
+      reason: 'scope_forbidden',
+      error: 'API key not allowed for DELETE /api/users',
+      details: {
+        current_usage: 5,
+        limit: 100,
+        plan_name: 'Basic Plan',
+        period_start: '2024-01-01T00:00:00.000Z',
+        period_end: new Date(Date.now() + 60000).toISOString()
+      }
+    };
+
+    it('should create keys with scopes and permissions', async () => {
+      mockFetch.mockResolvedValueOnce(jsonResponse({ success: true, data: { id: 'key1' } }));
+
+      await limitly.apiKeys.create({
+        name: 'Partner Key',
+        scopes: ['read:users'],
+        permissions: [{ endpoint: '/api/users/:id', methods: ['GET'] }]
+      });
+
+      expect(JSON.parse(mockFetch.mock.calls[0][1].body)).toEqual({
+        name: 'Partner Key',
+        scopes: ['read:users'],
+        permissions: [{ endpoint: '/api/users/:id', methods: ['GET'] }]
+      });
+    });
+
+    it('should create user keys with scopes and permissions', async () => {
+      mockFetch.mockResolvedValueOnce(jsonResponse({ success: true, data: { id: 'key1' } }));
+
+      await limitly.users.createKey(1, {
+        name: 'User Key',
+        scopes: ['read:users'],
+        permissions: [{ endpoint: '/api/users/:id', methods: ['GET'] }]
+      });
+
+      expect(mockFetch.mock.calls[0][0]).toMatch(/\/users\/1\/keys$/);
+      expect(JSON.parse(mockFetch.mock.calls[0][1].body)).toEqual({
+        name: 'User Key',
+        scopes: ['read:users'],
+        permissions: [{ endpoint: '/api/users/:id', methods: ['GET'] }]
+      });
+    });
+
+    it('should answer scope denials with 403 instead of 429', async () => {
+      mockFetch.mockResolvedValueOnce(jsonResponse(forbidden));
+      const onRateLimitExceeded = jest.fn(() => Response.json({}, { status: 429 }));
+      const wrapped = limitly.withRateLimit(async () => Response.json({ ok: true }), { onRateLimitExceeded });
+
+      const response = await wrapped(new Request('http://localhost:3000/api/users', {
+        method: 'DELETE',
+        headers: { authorization: 'Bearer user_api_key' }
+      }));
+
+      expect(response.status).toBe(403);
+      expect(await response.json()).toEqual({
+        error: 'API key not allowed for DELETE /api/users',
+        reason: 'scope_forbidden'
+      });
+      expect(response.headers.get('Retry-After')).toBeNull();
+      expect(onRateLimitExceeded).not.toHaveBeenCalled();
+    });
+
+    it('should answer scope denials with 403 in Express-style middleware', async () => {
+      mockFetch.mockResolvedValueOnce(jsonResponse(forbidden));
+      const res = { status: jest.fn().mockReturnThis(), json: jest.fn(), setHeader: jest.fn() };
+      const next = jest.fn();
+      const middleware = limitly.createMiddleware();
+
+      await middleware({ headers: { authorization: 'Bearer user_api_key' }, url: '/api/users', method: 'DELETE' }, res, next);
+
+      expect(res.status).toHaveBeenCalledWith(403);
+      expect(next).not.toHaveBeenCalled();
+    });
+
+    it('should not cache scope denials', async () => {
+      const client = new Limitly({ apiKey: 'test_api_key', validation: { cache: true } });
+      mockFetch.mockImplementation(async () => jsonResponse(forbidden));
+
+      await client.validation.validate('user_api_key', '/api/users', 'DELETE');
+      await client.validation.validate('user_api_key', '/api/users', 'DELETE');
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      mockFetch.mockReset();
+    });
+  });
+
+  describe('Key Expiration', () => {
+    it('should create keys with an expiration date', async () => {
+      mockFetch.mockResolvedValueOnce(jsonResponse({ success: true, data: { id: 'key1' } }));
+
+      await limitly.apiKeys.create({ name: 'Temporary Key', expires_at: new Date('2030-01-01T00:00:00.000Z') });
+
+      expect(JSON.parse(mockFetch.mock.calls[0][1].body)).toEqual({
+        name: 'Temporary Key',
+        expires_at: '2030-01-01T00:00:00.000Z'
+      });
+    });
+
+    it('should create user keys with an expiration date', async () => {
+      mockFetch.mockResolvedValueOnce(jsonResponse({ success: true, data: { id: 'key1' } }));
+
+      await limitly.users.createKey(1, { name: 'Temporary Key', expires_at: new Date('2030-01-01T00:00:00.000Z') });
+
+      expect(mockFetch.mock.calls[0][0]).toMatch(/\/users\/1\/keys$/);
+      expect(JSON.parse(mockFetch.mock.calls[0][1].body)).toEqual({
+        name: 'Temporary Key',
+        expires_at: '2030-01-01T00:00:00.000Z'
+      });
+    });
+
+    it('should list keys expiring soon', async () => {
+      mockFetch.mockResolvedValueOnce(jsonResponse({ success: true, data: [] }));
+
+      await limitly.apiKeys.listExpiring(3600, { status: 'active' });
+
+      const params = new URL(mockFetch.mock.calls[0][0]).searchParams;
+      const from = Date.parse(String(params.get('expires_from')));
+      expect(Date.parse(String(params.get('expires_to'))) - from).toBe(3600 * 1000);
+      expect(Math.abs(from - Date.now())).toBeLessThan(5000);
+      expect(params.get('status')).toBe('active');
+      expect(params.get('sort')).toBe('expires_at');
+      expect(params.get('order')).toBe('asc');
+    });
+
+    it('should answer expired keys with 401 and their own reason', async () => {
+      mockFetch.mockResolvedValueOnce(jsonResponse({ success: false, reason: 'key_expired' }));
+      const middleware = limitly.nextMiddleware();
+
+      const response = await middleware(new NextRequest('http://localhost:3000/api/users', {
+        headers: { authorization: 'Bearer user_api_key' }
+      }));
+
+      expect(response.status).toBe(401);
+      expect(await response.json()).toEqual({ error: 'API key expired', reason: 'key_expired' });
+    });
+  });
+
+  describe('Endpoint Rules', () => {
+    const periodEnd = new Date(Date.now() + 3600000).toISOString();
+    const ruleEnd = new Date(Date.now() + 60000).toISOString();
+    const result = (ruleRemaining: number) => ({
+      success: ruleRemaining >= 0,
+      details: {
+        current_usage: 10,
+        limit: 1000,
+        plan_name: 'Pro Plan',
+        period_start: '2024-01-01T00:00:00.000Z',
+        period_end: periodEnd,
+        matched_rule: {
+          endpoint: '/api/export/:path*',
+          method: 'POST',
+          max_requests: 5,
+          request_period: 'day',
+          current_usage: 5 - Math.max(0, ruleRemaining),
+          remaining: Math.max(0, ruleRemaining),
+          period_start: '2024-01-01T00:00:00.000Z',
+          period_end: ruleEnd
+        }
+      }
+    });
+
+    it('should create plans with endpoint rules', async () => {
+      mockFetch.mockResolvedValueOnce(jsonResponse({ success: true, data: { id: 'plan1' } }));
+      const rules = [{ endpoint: '/api/export/:path*', method: 'POST', max_requests: 5, request_period: 'day' as const }];
+
+      await limitly.plans.create({ name: 'Pro Plan', max_requests: 1000, request_period: 'month', rules });
+
+      expect(JSON.parse(mockFetch.mock.calls[0][1].body).rules).toEqual(rules);
+    });
+
+    it('should report the most restrictive limit in headers', async () => {
+      mockFetch.mockResolvedValueOnce(jsonResponse(result(-1)));
+      const wrapped = limitly.withRateLimit(async () => Response.json({ ok: true }));
+
+      const response = await wrapped(new Request('http://localhost:3000/api/export/csv', {
+        method: 'POST',
+        headers: { authorization: 'Bearer user_api_key' }
+      }));
+
+      expect(response.status).toBe(429);
+      expect(response.headers.get('RateLimit-Limit')).toBe('5');
+      expect(response.headers.get('RateLimit-Remaining')).toBe('0');
+      expect(Number(response.headers.get('Retry-After'))).toBeLessThanOrEqual(60);
+    });
+
+    it('should limit cached headroom to the matched rule', async () => {
+      const client = new Limitly({ apiKey: 'test_api_key', validation: { cache: { allowedTtl: 60000 } } });
+      mockFetch.mockImplementation(async () => jsonResponse(result(2)));
+
+      const first = await client.validation.validate('user_api_key', '/api/export/csv', 'POST');
+      const second = await client.validation.validate('user_api_key', '/api/export/csv', 'POST');
+      const third = await client.validation.validate('user_api_key', '/api/export/csv', 'POST');
+      const fourth = await client.validation.validate('user_api_key', '/api/export/csv', 'POST');
+
+      expect(first.cached).toBeUndefined();
+      expect(second.details?.matched_rule?.remaining).toBe(1);
+      expect(third.details?.matched_rule?.remaining).toBe(0);
+      expect(fourth.cached).toBeUndefined();
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      mockFetch.mockReset();
+    });
+  });
+
+  describe('Weighted Validation', () => {
+    it('should send the request cost', async () => {
+      mockFetch.mockImplementation(async () => jsonResponse({ success: true }));
+
+      await limitly.validation.validate('user_api_key', '/api/batch', 'POST', { cost: 25 });
+      await limitly.validation.validateWithContext('user_api_key', '/api/batch', 'POST', { userId: 1 }, { cost: 3 });
+
+      expect(JSON.parse(mockFetch.mock.calls[0][1].body)).toEqual({
+        api_key: 'user_api_key',
+        endpoint: '/api/batch',
+        method: 'POST',
+        cost: 25
+      });
+      expect(JSON.parse(mockFetch.mock.calls[1][1].body).cost).toBe(3);
+      mockFetch.mockReset();
+    });
+
+    it('should compute the cost from the request in wrappers', async () => {
+      mockFetch.mockResolvedValueOnce(jsonResponse({ success: true }));
+      const wrapped = limitly.withRateLimit(async () => Response.json({ ok: true }), {
+        cost: async (request) => ((await request.clone().json()) as { items: unknown[] }).items.length
+      });
+
+      await wrapped(new Request('http://localhost:3000/api/batch', {
+        method: 'POST',
+        headers: { authorization: 'Bearer user_api_key' },
+        body: JSON.stringify({ items: [1, 2, 3] })
+      }));
+
+      expect(JSON.parse(mockFetch.mock.calls[0][1].body).cost).toBe(3);
+    });
+
+    it('should consume cached headroom by cost', async () => {
+      const client = new Limitly({ apiKey: 'test_api_key', validation: { cache: { allowedTtl: 60000 } } });
+      mockFetch.mockImplementation(async () => jsonResponse({
+        success: true,
+        details: {
+          current_usage: 90,
+          limit: 100,
+          plan_name: 'Basic Plan',
+          period_start: '2024-01-01T00:00:00.000Z',
+          period_end: '2999-01-31T23:59:59.999Z'
+        }
+      }));
+
+      await client.validation.validate('user_api_key', '/api/batch', 'POST', { cost: 2 });
+      const cached = await client.validation.validate('user_api_key', '/api/batch', 'POST', { cost: 8 });
+      await client.validation.validate('user_api_key', '/api/batch', 'POST', { cost: 5 });
+
+      expect(cached.details?.current_usage).toBe(98);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      mockFetch.mockReset();
+    });
+
+    it('should not cache denials of costly requests while quota is left', async () => {
+      const client = new Limitly({ apiKey: 'test_api_key', validation: { cache: {} } });
+      const details = {
+        current_usage: 600,
+        limit: 1000,
+        plan_name: 'Basic Plan',
+        period_start: '2024-01-01T00:00:00.000Z',
+        period_end: '2999-01-31T23:59:59.999Z'
+      };
+      mockFetch
+        .mockResolvedValueOnce(jsonResponse({ success: false, reason: 'rate_limit_exceeded', details }))
+        .mockResolvedValueOnce(jsonResponse({ success: true, reason: 'allowed', details }));
+
+      const denied = await client.validation.validate('user_api_key', '/api/batch', 'POST', { cost: 500 });
+      const allowed = await client.validation.validate('user_api_key', '/api/batch', 'POST', { cost: 1 });
+
+      expect(denied.success).toBe(false);
+      expect(allowed.success).toBe(true);
+      expect(allowed.cached).toBeUndefined();
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('Check and Reservations', () => {
+    const reservedResponse = { success: true, reservation_id: 'res_123' };
+
+    function createRequest() {
+      return new Request('http://localhost:3000/api/reports', {
+        method: 'POST',
+        headers: { authorization: 'Bearer user_api_key' }
+      });
+    }
+
+    it('should check requests as a dry run bypassing the decision cache', async () => {
+      const client = new Limitly({ apiKey: 'test_api_key', validation: { cache: true } });
+      mockFetch.mockImplementation(async () => jsonResponse({ success: true }));
+
+      await client.validation.check('user_api_key', '/api/reports', 'POST', { cost: 2 });
+      await client.validation.check('user_api_key', '/api/reports', 'POST', { cost: 2 });
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(JSON.parse(mockFetch.mock.calls[0][1].body)).toEqual({
+        api_key: 'user_api_key',
+        endpoint: '/api/reports',
+        method: 'POST',
+        cost: 2,
+        dry_run: true
+      });
+      mockFetch.mockReset();
+    });
+
+    it('should reserve, commit and refund requests', async () => {
+      mockFetch
+        .mockResolvedValueOnce(jsonResponse(reservedResponse))
+        .mockResolvedValueOnce(jsonResponse({ success: true }))
+        .mockResolvedValueOnce(jsonResponse({ success: true }));
+
+      const result = await limitly.validation.reserve('user_api_key', '/api/reports', 'POST');
+      await limitly.validation.commit('res_123');
+      await limitly.validation.refund('res_456');
+
+      expect(result.reservation_id).toBe('res_123');
+      expect(JSON.parse(mockFetch.mock.calls[0][1].body).reserve).toBe(true);
+      expect(mockFetch.mock.calls[1][0]).toMatch(/\/validate\/commit$/);
+      expect(mockFetch.mock.calls[2][0]).toMatch(/\/validate\/refund$/);
+      expect(JSON.parse(mockFetch.mock.calls[2][1].body)).toEqual({ reservation_id: 'res_456' });
+    });
+
+    it('should refund reservations in local mode without calling Limitly', async () => {
+      const client = new Limitly({
+        apiKey: 'test_api_key',
+        validation: { mode: 'local', local: { plan: { max_requests: 1, request_period: 'day' } } }
+      });
+
+      const reserved = await client.validation.reserve('user_api_key', '/api/reports', 'POST');
+      const refunded = await client.validation.refund(String(reserved.reservation_id));
+      const result = await client.validation.validate('user_api_key', '/api/reports', 'POST');
+
+      expect(refunded.success).toBe(true);
+      expect(result.success).toBe(true);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should refund when the handler returns a server error', async () => {
+      mockFetch
+        .mockResolvedValueOnce(jsonResponse(reservedResponse))
+        .mockResolvedValueOnce(jsonResponse({ success: true }));
+      const wrapped = limitly.withRateLimit(async () => Response.json({ error: 'Upstream failed' }, { status: 502 }), {
+        refundOnFailure: true
+      });
+
+      const response = await wrapped(createRequest());
+
+      expect(response.status).toBe(502);
+      expect(JSON.parse(mockFetch.mock.calls[0][1].body).reserve).toBe(true);
+      expect(JSON.parse(mockFetch.mock.calls[1][1].body)).toEqual({ reservation_id: 'res_123' });
+    });
+
+    it('should refund and rethrow when the handler throws', async () => {
+      mockFetch
+        .mockResolvedValueOnce(jsonResponse(reservedResponse))
+        .mockResolvedValueOnce(jsonResponse({ success: true }));
+      const wrapped = limitly.withRateLimit(async () => {
+        throw new Error('Handler failed');
+      }, { refundOnFailure: true });
+
+      await expect(wrapped(createRequest())).rejects.toThrow('Handler failed');
+      expect(mockFetch.mock.calls[1][0]).toMatch(/\/validate\/refund$/);
+    });
+
+    it('should commit the reservation of successful requests', async () => {
+      mockFetch
+        .mockResolvedValueOnce(jsonResponse(reservedResponse))
+        .mockResolvedValueOnce(jsonResponse({ success: true }));
+      const wrapped = limitly.withRateLimit(async () => Response.json({ ok: true }), { refundOnFailure: true });
+
+      const response = await wrapped(createRequest());
+
+      expect(response.status).toBe(200);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(mockFetch.mock.calls[1][0]).toMatch(/\/validate\/commit$/);
+      expect(JSON.parse(mockFetch.mock.calls[1][1].body)).toEqual({ reservation_id: 'res_123' });
+    });
+
+    it('should not keep local reservations of successful requests', async () => {
+      const storage = new MemoryStorageAdapter();
+      const local = new Limitly({
+        apiKey: 'test_api_key',
+        validation: { mode: 'local', local: { plan: { max_requests: 10, request_period: 'month' }, storage } }
+      });
+      const wrapped = local.withRateLimit(async () => Response.json({ ok: true }), { refundOnFailure: true });
+
+      await wrapped(createRequest());
+      await wrapped(createRequest());
+
+      expect(storage.size).toBe(1);
+    });
+  });
+
+  describe('Identity Limits', () => {
+    function createRequest(headers: Record<string, string> = {}) {
+      return new Request('http://localhost:3000/api/public', { headers });
+    }
+
+    it('should resolve the client IP behind trusted proxies', () => {
+      const request = createRequest({ 'x-forwarded-for': '198.51.100.1, 203.0.113.7, 10.0.0.2' });
+
+      expect(getClientIp(request)).toBe('10.0.0.2');
+      expect(getClientIp(request, { trustedProxies: 2 })).toBe('203.0.113.7');
+      expect(getClientIp(request, { trustedProxies: ['10.0.0.2'] })).toBe('203.0.113.7');
+      expect(getClientIp(createRequest({ 'x-real-ip': '203.0.113.7:4711' }))).toBe('203.0.113.7');
+    });
+
+    it('should ignore forwarding headers from untrusted peers', () => {
+      const req = {
+        headers: { 'x-forwarded-for': '198.51.100.1' },
+        socket: { remoteAddress: '::ffff:203.0.113.7' }
+      };
+
+      expect(getClientIp(req, { trustedProxies: 0 })).toBe('203.0.113.7');
+      expect(getClientIp(req, { trustedProxies: ['10.0.0.2'] })).toBe('203.0.113.7');
+      expect(getClientIp(req)).toBe('198.51.100.1');
+    });
+
+    it('should build prefixed identities', async () => {
+      const request = createRequest({ 'x-forwarded-for': '203.0.113.7', cookie: 'sid=abc' });
+      const user = identityFrom.user((req: Request) => req.headers.get('x-user-id'));
+
+      expect(await identityFrom.ip()(request)).toBe('ip:203.0.113.7');
+      expect(await identityFrom.session('sid')(request)).toBe('session:abc');
+      expect(await identityFrom.chain(user, identityFrom.ip())(request)).toBe('ip:203.0.113.7');
+      expect(await identityFrom.composite(user, identityFrom.ip())(request)).toBeUndefined();
+      expect(await identityFrom.composite(identityFrom.session('sid'), identityFrom.ip())(request))
+        .toBe('session:abc|ip:203.0.113.7');
+    });
+
+    it('should send the identity with the API key', async () => {
+      mockFetch.mockResolvedValueOnce(jsonResponse({ success: true }));
+      const wrapped = limitly.withRateLimit(async () => Response.json({ ok: true }), {
+        identify: identityFrom.user(() => 42)
+      });
+
+      await wrapped(createRequest({ authorization: 'Bearer user_api_key' }));
+
+      expect(JSON.parse(mockFetch.mock.calls[0][1].body)).toEqual({
+        api_key: 'user_api_key',
+        identity: 'user:42',
+        endpoint: '/api/public',
+        method: 'GET'
+      });
+    });
+
+    it('should limit public endpoints by identity when the API key is optional', async () => {
+      mockFetch.mockResolvedValueOnce(jsonResponse({ success: true }));
+      const wrapped = limitly.withRateLimit(async () => Response.json({ ok: true }), {
+        identify: identityFrom.ip(),
+        requireApiKey: false
+      });
+
+      const allowed = await wrapped(createRequest({ 'x-forwarded-for': '203.0.113.7' }));
+      const rejected = await wrapped(createRequest());
+
+      expect(allowed.status).toBe(200);
+      expect(rejected.status).toBe(401);
+      expect(JSON.parse(mockFetch.mock.calls[0][1].body)).toEqual({
+        identity: 'ip:203.0.113.7',
+        endpoint: '/api/public',
+        method: 'GET'
+      });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should still require an API key by default', async () => {
+      const wrapped = limitly.withRateLimit(async () => Response.json({ ok: true }), {
+        identify: identityFrom.ip()
+      });
+
+      const response = await wrapped(createRequest({ 'x-forwarded-for': '203.0.113.7' }));
+
+      expect(response.status).toBe(401);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should share local quota between the keys of an identity', async () => {
+      const client = new Limitly({
+        apiKey: 'test_api_key',
+        validation: { mode: 'local', local: { plan: { max_requests: 2, request_period: 'day' } } }
+      });
+
+      await client.validation.validate('first_key', '/api/users', 'GET', { identity: 'user:42' });
+      await client.validation.validate('second_key', '/api/users', 'GET', { identity: 'user:42' });
+      const denied = await client.validation.validate('third_key', '/api/users', 'GET', { identity: 'user:42' });
+      const otherUser = await client.validation.validate('first_key', '/api/users', 'GET', { identity: 'user:7' });
+
+      expect(denied.success).toBe(false);
+      expect(otherUser.success).toBe(true);
+    });
+  });
+
+  describe('Validation Outcomes', () => {
+    function createRequest() {
+      return new Request('http://localhost:3000/api/users', { headers: { authorization: 'Bearer user_api_key' } });
+    }
+
+    it('should map each denial reason to its status', async () => {
+      const cases = [
+        ['rate_limit_exceeded', 429],
+        ['invalid_key', 401],
+        ['key_expired', 401],
+        ['key_inactive', 403],
+        ['user_disabled', 403],
+        ['plan_inactive', 403],
+        ['scope_forbidden', 403]
+      ] as const;
+      const wrapped = limitly.withRateLimit(async () => Response.json({ ok: true }));
+
+      for (const [reason, status] of cases) {
+        mockFetch.mockResolvedValueOnce(jsonResponse({ success: false, reason }));
+
+        const response = await wrapped(createRequest());
+
+        expect(response.status).toBe(status);
+      }
+    });
+
+    it('should explain non rate limit denials without rate limit details', async () => {
+      mockFetch.mockResolvedValueOnce(jsonResponse({ success: false, reason: 'user_disabled' }));
+      const onRateLimitExceeded = jest.fn(() => Response.json({}, { status: 429 }));
+      const wrapped = limitly.withRateLimit(async () => Response.json({ ok: true }), { onRateLimitExceeded });
+
+      const response = await wrapped(createRequest());
+
+      expect(await response.json()).toEqual({ error: 'User disabled', reason: 'user_disabled' });
+      expect(onRateLimitExceeded).not.toHaveBeenCalled();
+    });
+
+    it('should map reasons in Express-style middleware and Edge middleware', async () => {
+      mockFetch
+        .mockResolvedValueOnce(jsonResponse({ success: false, reason: 'invalid_key', error: 'Invalid API key' }))
+        .mockResolvedValueOnce(jsonResponse({ success: false, reason: 'key_inactive' }));
+      const res = { status: jest.fn().mockReturnThis(), json: jest.fn(), setHeader: jest.fn() };
+
+      await limitly.createMiddleware()(
+        { headers: { authorization: 'Bearer user_api_key' }, url: '/api/users', method: 'GET' },
+        res
+      );
+      const response = await limitly.nextMiddleware()(new NextRequest(createRequest()));
+
+      expect(res.status).toHaveBeenCalledWith(401);
+      expect(res.json).toHaveBeenCalledWith({ error: 'Invalid API key', reason: 'invalid_key' });
+      expect(response.status).toBe(403);
+    });
+
+    it('should still treat denials without a reason as rate limited', async () => {
+      mockFetch.mockResolvedValueOnce(jsonResponse({ success: false, error: 'Rate limit exceeded' }));
+      const wrapped = limitly.withRateLimit(async () => Response.json({ ok: true }));
+
+      const response = await wrapped(createRequest());
+
+      expect(response.status).toBe(429);
+    });
+
+    it('should report reasons from the local limiter', async () => {
+      const client = new Limitly({
+        apiKey: 'test_api_key',
+        validation: { mode: 'local', local: { resolvePlan: () => undefined } }
+      });
+
+      const result = await client.validation.validate('unknown_key', '/api/users', 'GET');
+
+      expect(result.reason).toBe('invalid_key');
+    });
+  });
+
+  describe('Response Validation', () => {
+    const usage = {
+      apiKeyId: 'key1',
+      apiKeyName: 'Production Key',
+      created_at: '2024-01-01T00:00:00Z',
+      periodStart: '2024-01-01T00:00:00Z',
+      periodEnd: '2024-01-31T23:59:59Z',
+      totalRequests: 500,
+      requestsInPeriod: 100,
+      percentageUsed: 10,
+      limit: 1000,
+      planName: 'Basic Plan',
+      isUnlimited: false
+    };
+    // Same usage sent in snake_case by a drifting backend
+    const driftedUsage = {
+      api_key_id: 'key1',
+      api_key_name: 'Production Key',
+      created_at: '2024-01-01T00:00:00Z',
+      requests_in_period: 100
+    };
+
+    function createClient(responseValidation?: 'strict' | 'lenient', onInvalidResponse?: jest.Mock) {
+      return new Limitly({
+        apiKey: 'test_api_key',
+        ...(responseValidation && { responseValidation }),
+        ...(onInvalidResponse && { onInvalidResponse })
+      });
+    }
+
+    it('should not check responses by default', async () => {
+      mockFetch.mockResolvedValueOnce(jsonResponse({ success: true, data: driftedUsage }));
+
+      const result = await createClient().apiKeys.getUsage('key1');
+
+      expect(result.data).toEqual(driftedUsage);
+    });
+
+    it('should accept matching responses and unknown fields in strict mode', async () => {
+      mockFetch.mockResolvedValueOnce(jsonResponse({ success: true, data: { ...usage, newField: true } }));
+
+      const result = await createClient('strict').apiKeys.getUsage('key1');
+
+      expect(result.data?.requestsInPeriod).toBe(100);
+    });
+
+    it('should throw a descriptive error on mismatches in strict mode', async () => {
+      mockFetch.mockResolvedValueOnce(jsonResponse(
+        { success: true, data: driftedUsage },
+        200,
+        { 'x-request-id': 'req_123' }
+      ));
+
+      const error = await createClient('strict').apiKeys.getUsage('key1').catch((e) => e);
+
+      expect(error).toBeInstanceOf(ResponseValidationError);
+      expect(error).toBeInstanceOf(LimitlyError);
+      expect(error.code).toBe('invalid_response');
+      expect(error.requestId).toBe('req_123');
+      expect(error.message).toMatch(
+        /^Unexpected response from GET \/keys\/key1\/usage: data\.apiKeyId: expected string, received undefined;/
+      );
+      expect(error.issues).toContainEqual({ path: 'data.totalRequests', expected: 'number', received: 'undefined' });
+    });
+
+    it('should report mismatches and return the response in lenient mode', async () => {
+      const onInvalidResponse = jest.fn();
+      mockFetch.mockResolvedValueOnce(jsonResponse({
+        success: true,
+        data: [{ id: 'key1', name: 'Key', status: 'revoked', created_at: '2024-01-01T00:00:00Z' }]
+      }));
+
+      const result = await createClient('lenient', onInvalidResponse).apiKeys.list();
+
+      expect(result.data).toHaveLength(1);
+      expect(onInvalidResponse).toHaveBeenCalledWith(expect.objectContaining({
+        issues: [{ path: 'data[0].status', expected: '"active" | "inactive"', received: '"revoked"' }]
+      }));
+    });
+
+    it('should warn by default in lenient mode', async () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      mockFetch.mockResolvedValueOnce(jsonResponse({ success: 'yes' }));
+
+      await createClient('lenient').validation.validate('user_api_key', '/api/users', 'GET');
+
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('success: expected boolean, received string'));
+      warn.mockRestore();
+    });
+
+    it('should accept validation reasons unknown to the SDK in strict mode', async () => {
+      mockFetch.mockResolvedValueOnce(jsonResponse({ success: false, reason: 'quota_frozen', error: 'Quota frozen' }));
+
+      const result = await createClient('strict').validation.validate('user_api_key', '/api/users', 'GET');
+
+      expect(result.reason).toBe('quota_frozen');
+      expect(getDenialStatus(result)).toBe(429);
+    });
+
+    it('should check values against standalone schemas', () => {
+      const windowSchema = schema.object<{ max_requests: number; burst?: number }>({
+        max_requests: schema.number(),
+        burst: schema.optional(schema.number())
+      });
+
+      expect(checkSchema(windowSchema, { max_requests: 10 })).toEqual([]);
+      expect(checkSchema(schema.array(windowSchema), [{ burst: 'x' }], 'windows')).toEqual([
+        { path: 'windows[0].max_requests', expected: 'number', received: 'undefined' },
+        { path: 'windows[0].burst', expected: 'number', received: 'string' }
+      ]);
+    });
+  });
+
+  describe('Normalized Models', () => {
+    const user = {
+      user_id: 42,
+      name: 'Ada',
+      is_disabled: false,
+      created_at: '2024-01-01T00:00:00.000Z',
+      updated_at: '2024-02-01T00:00:00.000Z',
+      plan: { id: 'plan1', max_requests: 1000, request_period: 'month', windows: [{ max_requests: 10, request_period: 'second' }] }
+    };
+
+    it('should return camelCase models with dates', async () => {
+      mockFetch.mockResolvedValueOnce(jsonResponse({ success: true, data: user }));
+
+      const result = await limitly.normalized.users.get(42);
+
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual({
+        userId: 42,
+        name: 'Ada',
+        isDisabled: false,
+        createdAt: new Date('2024-01-01T00:00:00.000Z'),
+        updatedAt: new Date('2024-02-01T00:00:00.000Z'),
+        plan: { id: 'plan1', maxRequests: 1000, requestPeriod: 'month', windows: [{ maxRequests: 10, requestPeriod: 'second' }] }
+      });
+      expect(mockFetch.mock.calls[0][0]).toMatch(/\/users\/42$/);
+    });
+
+    it('should leave the wire format modules unchanged', async () => {
+      mockFetch.mockResolvedValueOnce(jsonResponse({ success: true, data: user }));
+
+      const result = await limitly.users.get(42);
+
+      expect(result.data).toEqual(user);
+    });
+
+    it('should send request bodies in the wire format', async () => {
+      mockFetch.mockResolvedValueOnce(jsonResponse({ success: true, data: { id: 'key1' } }));
+
+      await limitly.normalized.apiKeys.create({
+        name: 'CI',
+        planId: 'plan1',
+        permissions: [{ endpoint: '/api/*', methods: ['GET'] }],
+        expiresAt: new Date('2025-01-01T00:00:00.000Z')
+      });
+
+      expect(JSON.parse(mockFetch.mock.calls[0][1].body)).toEqual({
+        name: 'CI',
+        plan_id: 'plan1',
+        permissions: [{ endpoint: '/api/*', methods: ['GET'] }],
+        expires_at: '2025-01-01T00:00:00.000Z'
+      });
+    });
+
+    it('should pass arguments without a declared format through', async () => {
+      mockFetch.mockResolvedValueOnce(jsonResponse({ success: true, data: { id: 'key1' } }));
+
+      await limitly.normalized.apiKeys.rotate('key1', { graceSeconds: 60 });
+
+      expect(JSON.parse(mockFetch.mock.calls[0][1].body)).toEqual({ grace_seconds: 60 });
+    });
+
+    it('should convert list filters but not request options', async () => {
+      mockFetch.mockResolvedValueOnce(jsonResponse({
+        success: true,
+        data: [{ id: 'key1', last_used_at: '2024-03-01T00:00:00.000Z' }],
+        next_cursor: 'c2',
+        has_more: true
+      }));
+
+      const page = await limitly.normalized.apiKeys.list({
+        planId: 'plan1',
+        sort: 'lastUsedAt',
+        order: 'desc',
+        headers: { 'X-Trace-Id': 'trace' }
+      });
+
+      const params = new URL(mockFetch.mock.calls[0][0]).searchParams;
+      expect(params.get('plan_id')).toBe('plan1');
+      expect(params.get('sort')).toBe('last_used_at');
+      expect(mockFetch.mock.calls[0][1].headers).toEqual(expect.objectContaining({ 'X-Trace-Id': 'trace' }));
+      expect(page.nextCursor).toBe('c2');
+      expect(page.hasMore).toBe(true);
+      expect(page.data?.[0]?.lastUsedAt).toEqual(new Date('2024-03-01T00:00:00.000Z'));
+    });
+
+    it('should normalize iterated items', async () => {
+      mockFetch.mockResolvedValueOnce(jsonResponse({ success: true, data: [{ user_id: 1 }, { user_id: 2 }] }));
+
+      const ids: number[] = [];
+      for await (const item of limitly.normalized.users.iterate()) {
+        ids.push(item.userId);
+      }
+
+      expect(ids).toEqual([1, 2]);
+    });
+
+    it('should convert payloads both ways', () => {
+      const wire = { plan_id: 'plan1', custom_start: '2024-01-01T00:00:00.000Z', scopes: ['read'] };
+
+      const model = toModel(wire);
+
+      expect(model).toEqual({ planId: 'plan1', customStart: new Date('2024-01-01T00:00:00.000Z'), scopes: ['read'] });
+      expect(toWire<typeof wire>(model)).toEqual(wire);
+      expect(toModel({ expires_at: 'never' })).toEqual({ expiresAt: 'never' });
     });
   });
-}); 
\ No newline at end of file
+});
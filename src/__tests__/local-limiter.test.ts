@@ -0,0 +1,351 @@
+import { LocalRateLimiter, PERIOD_MS } from '../limiter/local-limiter';
+import { LocalPlan } from '../types';
+
+describe('LocalRateLimiter', () => {
+  const plan: LocalPlan = { name: 'Test Plan', max_requests: 3, request_period: 'day' };
+  const request = { api_key: 'user_api_key', endpoint: '/api/users', method: 'GET' };
+  let now: number;
+
+  beforeEach(() => {
+    now = PERIOD_MS.day * 1000;
+  });
+
+  function createLimiter(algorithm: 'fixed-window' | 'sliding-window' | 'token-bucket') {
+    return new LocalRateLimiter({ algorithm, plan, now: () => now });
+  }
+
+  async function countAllowed(limiter: LocalRateLimiter, attempts: number) {
+    let allowed = 0;
+    for (let i = 0; i < attempts; i++) {
+      if ((await limiter.validate(request)).success) {
+        allowed++;
+      }
+    }
+    return allowed;
+  }
+
+  describe('fixed-window', () => {
+    it('should allow up to max_requests per period', async () => {
+      const limiter = createLimiter('fixed-window');
+
+      expect(await countAllowed(limiter, 5)).toBe(3);
+
+      const result = await limiter.validate(request);
+      expect(result).toEqual({
+        success: false,
+        reason: 'rate_limit_exceeded',
+        error: 'Rate limit exceeded',
+        details: {
+          current_usage: 3,
+          limit: 3,
+          plan_name: 'Test Plan',
+          period_start: new Date(now).toISOString(),
+          period_end: new Date(now + PERIOD_MS.day).toISOString()
+        }
+      });
+    });
+
+    it('should reset at the start of the next window', async () => {
+      const limiter = createLimiter('fixed-window');
+      await countAllowed(limiter, 3);
+
+      now += PERIOD_MS.day;
+
+      expect(await countAllowed(limiter, 5)).toBe(3);
+    });
+
+    it('should count API keys separately', async () => {
+      const limiter = createLimiter('fixed-window');
+      await countAllowed(limiter, 3);
+
+      const result = await limiter.validate({ ...request, api_key: 'other_api_key' });
+
+      expect(result.success).toBe(true);
+    });
+  });
+
+  describe('sliding-window', () => {
+    it('should weight the previous window', async () => {
+      const limiter = createLimiter('sliding-window');
+      await countAllowed(limiter, 3);
+
+      // Halfway into the next window, half of the previous count still applies
+      now += PERIOD_MS.day * 1.5;
+
+      expect(await countAllowed(limiter, 5)).toBe(2);
+    });
+  });
+
+  describe('token-bucket', () => {
+    it('should refill tokens over the period', async () => {
+      const limiter = createLimiter('token-bucket');
+      expect(await countAllowed(limiter, 5)).toBe(3);
+
+      now += PERIOD_MS.day / 3;
+
+      expect(await countAllowed(limiter, 5)).toBe(1);
+    });
+
+    it('should report when the next token is available', async () => {
+      const limiter = createLimiter('token-bucket');
+      await countAllowed(limiter, 3);
+
+      const result = await limiter.validate(request);
+
+      expect(result.success).toBe(false);
+      expect(result.details?.period_end).toBe(new Date(now + PERIOD_MS.day / 3).toISOString());
+    });
+  });
+
+  describe('endpoint rules', () => {
+    const rulePlan: LocalPlan = {
+      ...plan,
+      max_requests: 10,
+      rules: [{ endpoint: '/api/export/:path*', method: 'POST', max_requests: 1, request_period: 'day' }]
+    };
+    const exportRequest = { api_key: 'user_api_key', endpoint: '/api/export/csv?full=1', method: 'POST' };
+
+    it('should enforce the matching rule on top of the plan limit', async () => {
+      const limiter = new LocalRateLimiter({ plan: rulePlan, now: () => now });
+
+      const first = await limiter.validate(exportRequest);
+      const second = await limiter.validate(exportRequest);
+
+      expect(first.success).toBe(true);
+      expect(first.details?.matched_rule).toEqual(expect.objectContaining({
+        endpoint: '/api/export/:path*',
+        current_usage: 1,
+        remaining: 0
+      }));
+      expect(second.success).toBe(false);
+      expect(second.details?.current_usage).toBe(1);
+      expect((await limiter.validate(request)).details?.matched_rule).toBeUndefined();
+    });
+
+    it('should not count requests denied by the plan against the rule', async () => {
+      const limiter = new LocalRateLimiter({
+        plan: {
+          max_requests: 1,
+          request_period: 'minute',
+          rules: [{ endpoint: '/export', max_requests: 3, request_period: 'hour' }]
+        },
+        now: () => now
+      });
+      const exportCall = { ...request, endpoint: '/export' };
+
+      for (let i = 0; i < 5; i++) {
+        await limiter.validate(exportCall);
+      }
+      now += PERIOD_MS.minute;
+      const nextMinute = await limiter.validate(exportCall);
+
+      expect(nextMinute.success).toBe(true);
+      expect(nextMinute.details?.matched_rule?.current_usage).toBe(2);
+    });
+
+    it('should only apply rules to their method', async () => {
+      const limiter = new LocalRateLimiter({ plan: rulePlan, now: () => now });
+
+      await limiter.validate(exportRequest);
+      const result = await limiter.validate({ ...exportRequest, method: 'GET' });
+
+      expect(result.success).toBe(true);
+      expect(result.details?.matched_rule).toBeUndefined();
+    });
+  });
+
+  describe('stacked windows', () => {
+    const stackedPlan: LocalPlan = {
+      ...plan,
+      max_requests: 100,
+      request_period: 'month',
+      windows: [
+        { max_requests: 2, request_period: 'second' },
+        { max_requests: 5, request_period: 'hour' }
+      ]
+    };
+
+    it('should deny on the first window hit and report its reset', async () => {
+      const limiter = new LocalRateLimiter({ plan: stackedPlan, now: () => now });
+
+      expect(await countAllowed(limiter, 3)).toBe(2);
+
+      const result = await limiter.validate(request);
+      expect(result.success).toBe(false);
+      expect(result.details).toEqual(expect.objectContaining({
+        request_period: 'second',
+        limit: 2,
+        period_end: new Date(now + PERIOD_MS.second).toISOString()
+      }));
+      expect(result.details?.windows?.map((window) => window.current_usage)).toEqual([2, 2, 2]);
+    });
+
+    it('should enforce longer windows once shorter ones reset', async () => {
+      const limiter = new LocalRateLimiter({ plan: stackedPlan, now: () => now });
+
+      let allowed = 0;
+      for (let second = 0; second < 5; second++) {
+        allowed += await countAllowed(limiter, 2);
+        now += PERIOD_MS.second;
+      }
+
+      const result = await limiter.validate(request);
+      expect(allowed).toBe(5);
+      expect(result.details?.request_period).toBe('hour');
+      expect(result.details?.windows?.find((window) => window.request_period === 'month')?.current_usage).toBe(5);
+    });
+
+    it('should not count denied requests against shorter windows', async () => {
+      const limiter = new LocalRateLimiter({
+        plan: { ...plan, max_requests: 100, request_period: 'minute', windows: [{ max_requests: 2, request_period: 'hour' }] },
+        now: () => now
+      });
+
+      expect(await countAllowed(limiter, 5)).toBe(2);
+
+      const result = await limiter.validate(request);
+      expect(result.details?.request_period).toBe('hour');
+      expect(result.details?.windows?.map((window) => window.current_usage)).toEqual([2, 2]);
+    });
+
+    it('should count windows sharing a period separately', async () => {
+      const limiter = new LocalRateLimiter({
+        plan: {
+          ...plan,
+          max_requests: 100,
+          request_period: 'month',
+          windows: [{ max_requests: 5, request_period: 'hour' }, { max_requests: 3, request_period: 'hour' }]
+        },
+        now: () => now
+      });
+
+      expect(await countAllowed(limiter, 5)).toBe(3);
+
+      const result = await limiter.validate(request);
+      expect(result.details?.limit).toBe(3);
+      expect(result.details?.windows?.map((window) => window.current_usage)).toEqual([3, 3, 3]);
+    });
+
+    it('should accept bursts and refill at the window rate', async () => {
+      const limiter = new LocalRateLimiter({
+        plan: { ...plan, max_requests: 60, request_period: 'minute', burst: 5 },
+        now: () => now
+      });
+
+      expect(await countAllowed(limiter, 10)).toBe(5);
+
+      now += PERIOD_MS.second;
+
+      expect(await countAllowed(limiter, 10)).toBe(1);
+    });
+  });
+
+  it('should count requests by cost', async () => {
+    const limiter = createLimiter('fixed-window');
+
+    const batch = await limiter.validate({ ...request, cost: 2 });
+    const tooLarge = await limiter.validate({ ...request, cost: 2 });
+    const single = await limiter.validate(request);
+
+    expect(batch.details?.current_usage).toBe(2);
+    expect(tooLarge.success).toBe(false);
+    expect(single.success).toBe(true);
+  });
+
+  describe('dry runs and reservations', () => {
+    const algorithms = ['fixed-window', 'sliding-window', 'token-bucket'] as const;
+
+    it('should check requests without counting them', async () => {
+      for (const algorithm of algorithms) {
+        const limiter = createLimiter(algorithm);
+        await limiter.validate({ ...request, cost: 2 });
+
+        expect((await limiter.validate({ ...request, dry_run: true })).success).toBe(true);
+        expect((await limiter.validate({ ...request, cost: 2, dry_run: true })).success).toBe(false);
+        expect(await countAllowed(limiter, 3)).toBe(1);
+      }
+    });
+
+    it('should give refunded quota back', async () => {
+      for (const algorithm of algorithms) {
+        const limiter = createLimiter(algorithm);
+
+        const reserved = await limiter.validate({ ...request, cost: 2, reserve: true });
+        expect(reserved.reservation_id).toMatch(/^local:/);
+
+        expect(await limiter.refund(String(reserved.reservation_id))).toBe(true);
+        expect(await limiter.refund(String(reserved.reservation_id))).toBe(false);
+        expect(await countAllowed(limiter, 5)).toBe(3);
+      }
+    });
+
+    it('should reserve without a global crypto object', async () => {
+      const descriptor = Object.getOwnPropertyDescriptor(globalThis, 'crypto');
+      Object.defineProperty(globalThis, 'crypto', { value: undefined, configurable: true });
+
+      try {
+        const limiter = createLimiter('fixed-window');
+        const first = await limiter.validate({ ...request, reserve: true });
+        const second = await limiter.validate({ ...request, reserve: true });
+
+        expect(first.reservation_id).toMatch(/^local:/);
+        expect(second.reservation_id).not.toBe(first.reservation_id);
+        expect(await limiter.refund(String(first.reservation_id))).toBe(true);
+      } finally {
+        if (descriptor) {
+          Object.defineProperty(globalThis, 'crypto', descriptor);
+        }
+      }
+    });
+
+    it('should refund endpoint rules and stacked windows', async () => {
+      const limiter = new LocalRateLimiter({
+        plan: {
+          ...plan,
+          windows: [{ max_requests: 1, request_period: 'second' }],
+          rules: [{ endpoint: '/api/users', max_requests: 1, request_period: 'hour' }]
+        },
+        now: () => now
+      });
+
+      const reserved = await limiter.validate({ ...request, reserve: true });
+      await limiter.refund(String(reserved.reservation_id));
+
+      const result = await limiter.validate(request);
+      expect(result.success).toBe(true);
+      expect(result.details?.matched_rule?.current_usage).toBe(1);
+    });
+
+    it('should not refund committed reservations', async () => {
+      const limiter = createLimiter('fixed-window');
+
+      const reserved = await limiter.validate({ ...request, reserve: true });
+      await limiter.commit(String(reserved.reservation_id));
+
+      expect(await limiter.refund(String(reserved.reservation_id))).toBe(false);
+      expect(await countAllowed(limiter, 3)).toBe(2);
+    });
+
+    it('should not reserve denied requests', async () => {
+      const limiter = createLimiter('fixed-window');
+      await countAllowed(limiter, 3);
+
+      const result = await limiter.validate({ ...request, reserve: true });
+      expect(result.success).toBe(false);
+      expect(result.reservation_id).toBeUndefined();
+    });
+  });
+
+  it('should resolve plans per API key', async () => {
+    const limiter = new LocalRateLimiter({
+      resolvePlan: (apiKey) => apiKey === 'user_api_key' ? plan : undefined
+    });
+
+    expect((await limiter.validate(request)).success).toBe(true);
+    expect(await limiter.validate({ ...request, api_key: 'unknown_key' })).toEqual({
+      success: false,
+      reason: 'invalid_key',
+      error: 'No plan configured for this API key'
+    });
+  });
+});
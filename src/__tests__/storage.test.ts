@@ -0,0 +1,250 @@
+import RedisMock from 'ioredis-mock';
+import { MemoryStorageAdapter } from '../storage/memory';
+import { RedisStorageAdapter } from '../storage/redis';
+import { LocalRateLimiter } from '../limiter/local-limiter';
+import { DecisionCache } from '../cache/decision-cache';
+
+describe('MemoryStorageAdapter', () => {
+  let now: number;
+  let storage: MemoryStorageAdapter;
+
+  beforeEach(() => {
+    now = 1000;
+    storage = new MemoryStorageAdapter(() => now);
+  });
+
+  it('should store values with an optional TTL', async () => {
+    await storage.set('a', { value: 1 });
+    await storage.set('b', 'expiring', 100);
+
+    now += 100;
+
+    expect(await storage.get('a')).toEqual({ value: 1 });
+    expect(await storage.get('b')).toBeUndefined();
+  });
+
+  it('should only increment counters within the limit', async () => {
+    expect(await storage.incrementWithin('counter', 2, 3, 1000)).toEqual({ allowed: true, value: 2 });
+    expect(await storage.incrementWithin('counter', 2, 3, 1000)).toEqual({ allowed: false, value: 2 });
+    expect(await storage.incrementWithin('counter', 1, 3, 1000)).toEqual({ allowed: true, value: 3 });
+
+    now += 1000;
+
+    expect(await storage.incrementWithin('counter', 1, 3, 1000)).toEqual({ allowed: true, value: 1 });
+  });
+
+  it('should take and refill tokens', async () => {
+    const params = { capacity: 2, refillPeriod: 1000, cost: 1, now };
+
+    expect(await storage.takeTokens('bucket', params)).toEqual({ allowed: true, tokens: 1 });
+    expect(await storage.takeTokens('bucket', params)).toEqual({ allowed: true, tokens: 0 });
+    expect(await storage.takeTokens('bucket', params)).toEqual({ allowed: false, tokens: 0 });
+    expect(await storage.takeTokens('bucket', { ...params, now: now + 500 })).toEqual({ allowed: true, tokens: 0 });
+  });
+
+  it('should sweep expired entries that are never read again', async () => {
+    for (let second = 0; second < 300; second++) {
+      await storage.incrementWithin(`fw:key:${second}`, 1, 10, 1000);
+      now += 1000;
+    }
+
+    expect(storage.size).toBeLessThanOrEqual(61);
+    expect(await storage.incrementWithin('fw:key:299', 1, 10, 1000)).toEqual({ allowed: true, value: 1 });
+  });
+
+  it('should evict the least recently written entries beyond the limit', async () => {
+    const bounded = new MemoryStorageAdapter(() => now, { maxEntries: 2 });
+
+    await bounded.set('a', 1);
+    await bounded.set('b', 2);
+    await bounded.set('a', 3);
+    await bounded.set('c', 4);
+
+    expect(bounded.size).toBe(2);
+    expect(await bounded.get('b')).toBeUndefined();
+    expect(await bounded.get('a')).toBe(3);
+  });
+});
+
+describe('RedisStorageAdapter', () => {
+  it('should run prefixed Lua scripts and parse their results', async () => {
+    const client = { eval: jest.fn() };
+    const storage = new RedisStorageAdapter(client, { prefix: 'app:' });
+
+    client.eval.mockResolvedValueOnce([1, '3']);
+    const increment = await storage.incrementWithin('counter', 1, 10, 1500.5);
+
+    client.eval.mockResolvedValueOnce([0, '0.5']);
+    const bucket = await storage.takeTokens('bucket', { capacity: 5, refillPeriod: 1000, cost: 1, now: 42 });
+
+    client.eval.mockResolvedValueOnce('{"value":1}');
+    const value = await storage.get('key');
+
+    expect(increment).toEqual({ allowed: true, value: 3 });
+    expect(bucket).toEqual({ allowed: false, tokens: 0.5 });
+    expect(value).toEqual({ value: 1 });
+    expect(client.eval.mock.calls[0].slice(1)).toEqual([['app:counter'], ['1', '10', '1501']]);
+    expect(client.eval.mock.calls[1].slice(1)).toEqual([['app:bucket'], ['5', '1000', '1']]);
+    expect(client.eval.mock.calls[2].slice(1)).toEqual([['app:key'], []]);
+  });
+
+  it('should serialize values and TTLs on set', async () => {
+    const client = { eval: jest.fn().mockResolvedValue(1) };
+    const storage = new RedisStorageAdapter(client);
+
+    await storage.set('key', { value: 1 }, 2000);
+    await storage.set('persistent', 'value');
+
+    expect(client.eval.mock.calls[0].slice(1)).toEqual([['limitly:key'], ['{"value":1}', '2000']]);
+    expect(client.eval.mock.calls[1].slice(1)).toEqual([['limitly:persistent'], ['"value"', '']]);
+  });
+});
+
+describe('RedisStorageAdapter scripts', () => {
+  let redis: InstanceType<typeof RedisMock>;
+  let storage: RedisStorageAdapter;
+
+  beforeEach(() => {
+    redis = new RedisMock();
+    storage = new RedisStorageAdapter({
+      eval: (script, keys, args) => redis.eval(script, keys.length, ...keys, ...args),
+    });
+  });
+
+  afterEach(async () => {
+    await redis.flushall();
+    redis.disconnect();
+  });
+
+  it('should get, set and delete JSON values with a TTL', async () => {
+    await storage.set('key', { value: 1 }, 2000);
+
+    expect(await storage.get('key')).toEqual({ value: 1 });
+    expect(await redis.pttl('limitly:key')).toBeGreaterThan(0);
+
+    await storage.delete('key');
+
+    expect(await storage.get('key')).toBeUndefined();
+  });
+
+  it('should increment up to the limit and expire the counter', async () => {
+    expect(await storage.incrementWithin('counter', 2, 5, 60000)).toEqual({ allowed: true, value: 2 });
+    expect(await storage.incrementWithin('counter', 3, 5, 60000)).toEqual({ allowed: true, value: 5 });
+    expect(await storage.incrementWithin('counter', 1, 5, 60000)).toEqual({ allowed: false, value: 5 });
+    expect(await redis.pttl('limitly:counter')).toBeGreaterThan(0);
+  });
+
+  it('should take tokens until the bucket is empty', async () => {
+    const params = { capacity: 2, refillPeriod: 60000, cost: 1, now: 0 };
+
+    expect((await storage.takeTokens('bucket', params)).allowed).toBe(true);
+    expect((await storage.takeTokens('bucket', params)).allowed).toBe(true);
+    expect((await storage.takeTokens('bucket', params)).allowed).toBe(false);
+    expect(await redis.pttl('limitly:bucket')).toBeGreaterThan(0);
+  });
+
+  it('should refill tokens with the time elapsed on the Redis clock', async () => {
+    const [seconds] = await redis.time();
+    // Empty bucket last updated half a refill period ago
+    await redis.hset('limitly:bucket', 'tokens', '0', 'updated_at', String(Number(seconds) * 1000 - 30000));
+
+    const result = await storage.takeTokens('bucket', { capacity: 10, refillPeriod: 60000, cost: 1, now: 0 });
+
+    expect(result.allowed).toBe(true);
+    expect(result.tokens).toBeGreaterThanOrEqual(4);
+    expect(result.tokens).toBeLessThan(10);
+  });
+
+  it('should not drain tokens when the Redis clock moves backwards', async () => {
+    const [seconds] = await redis.time();
+    await redis.hset('limitly:bucket', 'tokens', '3', 'updated_at', String(Number(seconds) * 1000 + 60000));
+
+    const result = await storage.takeTokens('bucket', { capacity: 10, refillPeriod: 60000, cost: 1, now: 0 });
+
+    expect(result).toEqual({ allowed: true, tokens: 2 });
+  });
+});
+
+describe('Shared storage', () => {
+  const request = { api_key: 'user_api_key', endpoint: '/api/users', method: 'GET' };
+
+  it('should enforce one limit across limiter instances', async () => {
+    const storage = new MemoryStorageAdapter();
+    const plan = { max_requests: 2, request_period: 'day' as const };
+    const first = new LocalRateLimiter({ plan, storage });
+    const second = new LocalRateLimiter({ plan, storage });
+
+    expect((await first.validate(request)).success).toBe(true);
+    expect((await second.validate(request)).success).toBe(true);
+    expect((await first.validate(request)).success).toBe(false);
+    expect((await second.validate(request)).success).toBe(false);
+  });
+
+  it('should keep API keys out of limiter counter names', async () => {
+    const storage = new MemoryStorageAdapter();
+    const increment = jest.spyOn(storage, 'incrementWithin');
+    const limiter = new LocalRateLimiter({
+      plan: {
+        max_requests: 2,
+        request_period: 'day',
+        windows: [{ max_requests: 1, request_period: 'second' }],
+        rules: [{ endpoint: '/api/users', max_requests: 1, request_period: 'hour' }]
+      },
+      storage
+    });
+
+    await limiter.validate(request);
+
+    expect(increment).toHaveBeenCalledTimes(3);
+    for (const [key] of increment.mock.calls) {
+      expect(key).not.toContain('user_api_key');
+    }
+  });
+
+  it('should share cached decisions and their headroom across instances', async () => {
+    const storage = new MemoryStorageAdapter();
+    const first = new DecisionCache({ storage, allowedTtl: 60000 });
+    const second = new DecisionCache({ storage, allowedTtl: 60000 });
+
+    await first.record(request, {
+      success: true,
+      details: {
+        current_usage: 8,
+        limit: 10,
+        plan_name: 'Basic Plan',
+        period_start: '2024-01-01T00:00:00.000Z',
+        period_end: '2999-01-31T23:59:59.999Z'
+      }
+    });
+
+    expect((await second.lookup(request))?.details?.current_usage).toBe(9);
+    expect((await first.lookup(request))?.details?.current_usage).toBe(10);
+    expect(await second.lookup(request)).toBeUndefined();
+  });
+
+  it('should keep API keys out of cached decision key names', async () => {
+    const storage = new MemoryStorageAdapter();
+    const set = jest.spyOn(storage, 'set');
+    const increment = jest.spyOn(storage, 'incrementWithin');
+    const cache = new DecisionCache({ storage, allowedTtl: 60000 });
+
+    await cache.record(request, {
+      success: true,
+      details: {
+        current_usage: 1,
+        limit: 10,
+        plan_name: 'Basic Plan',
+        period_start: '2024-01-01T00:00:00.000Z',
+        period_end: '2999-01-31T23:59:59.999Z'
+      }
+    });
+    await cache.lookup(request);
+
+    const keys = [...set.mock.calls, ...increment.mock.calls].map(([key]) => key);
+    expect(keys).toHaveLength(2);
+    for (const key of keys) {
+      expect(key).not.toContain('user_api_key');
+      expect(key).toMatch(/[0-9a-f]{64}:GET:\/api\/users$/);
+    }
+  });
+});
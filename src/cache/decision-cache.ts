@@ -0,0 +1,249 @@
+import {
+  CachedDecision,
+  DecisionCacheOptions,
+  DecisionCacheStore,
+  StorageAdapter,
+  ValidateRequestRequest,
+  ValidateRequestResponse,
+} from '../types';
+import { MemoryStorageAdapter } from '../storage/memory';
+import { isRateLimited } from '../utils/denial';
+import { hashKey } from '../utils/hash';
+
+/**
+ * In-memory decision cache store
+ * Entries are evicted lazily on read and oldest-first once full
+ */
+export class MemoryDecisionCacheStore implements DecisionCacheStore {
+  private readonly entries = new Map<string, CachedDecision>();
+
+  constructor(private readonly maxEntries = 10000) {}
+
+  async get(key: string): Promise<CachedDecision | undefined> {
+    const entry = this.entries.get(key);
+
+    if (entry && entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    return entry;
+  }
+
+  async set(key: string, decision: CachedDecision): Promise<void> {
+    this.entries.delete(key);
+
+    if (this.entries.size >= this.maxEntries) {
+      const oldest = this.entries.keys().next();
+      if (!oldest.done) {
+        this.entries.delete(oldest.value);
+      }
+    }
+
+    this.entries.set(key, decision);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+}
+
+/**
+ * Decision cache store backed by a storage adapter
+ * Lets several instances share cached decisions, e.g. through Redis
+ */
+export class StorageDecisionCacheStore implements DecisionCacheStore {
+  constructor(
+    private readonly storage: StorageAdapter,
+    private readonly prefix = 'decision:'
+  ) {}
+
+  async get(key: string): Promise<CachedDecision | undefined> {
+    return this.storage.get<CachedDecision>(this.prefix + key);
+  }
+
+  async set(key: string, decision: CachedDecision): Promise<void> {
+    await this.storage.set(this.prefix + key, decision, decision.expiresAt - Date.now());
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.storage.delete(this.prefix + key);
+  }
+}
+
+/**
+ * Short-lived cache of validation decisions keyed by API key, endpoint and method
+ *
+ * Blocked decisions are served until the exhausted limits reset, denials
+ * of a costly request while quota is left are not cached.
+ * Allowed decisions are reused for a short window while the headroom
+ * estimated from `current_usage` and `limit` lasts, across every plan window
+ * and the matched endpoint rule. Headroom is consumed
+ * through an atomic counter, so instances sharing a storage adapter never
+ * serve more cached decisions than the estimate. The cost served from the
+ * cache is sent with the next validation, so Limitly counts every allowed request.
+ */
+export class DecisionCache {
+  private readonly store: DecisionCacheStore;
+  private readonly counters: StorageAdapter;
+  private readonly allowedTtl: number;
+  private readonly maxBlockedTtl: number | undefined;
+
+  constructor(options: DecisionCacheOptions = {}) {
+    this.counters = options.storage || new MemoryStorageAdapter();
+    this.store = options.store || (options.storage
+      ? new StorageDecisionCacheStore(options.storage)
+      : new MemoryDecisionCacheStore());
+    this.allowedTtl = options.allowedTtl ?? 1000;
+    this.maxBlockedTtl = options.maxBlockedTtl;
+  }
+
+  /**
+   * Looks up a cached decision, consuming the request cost from the estimated headroom
+   * @param request - Request being validated
+   * @returns The cached result, or undefined when the API must be called
+   */
+  async lookup(request: ValidateRequestRequest): Promise<ValidateRequestResponse | undefined> {
+    const key = await this.getKey(request);
+    const entry = await this.store.get(key);
+
+    if (!entry) {
+      return undefined;
+    }
+
+    if (!entry.result.success) {
+      return { ...entry.result, cached: true };
+    }
+
+    // Cost served from the cache, kept until the limits reset or the API has counted it
+    const remaining = entry.remaining ?? 0;
+    const used = await this.counters.incrementWithin(
+      `decision-used:${key}`,
+      request.cost ?? 1,
+      remaining,
+      Math.max(getPeriodEnd(entry.result), entry.expiresAt) - Date.now()
+    );
+
+    if (!used.allowed) {
+      await this.store.delete(key);
+      return undefined;
+    }
+
+    const details = entry.result.details;
+    const rule = details?.matched_rule;
+    return {
+      ...entry.result,
+      cached: true,
+      ...(details && {
+        details: {
+          ...details,
+          current_usage: details.current_usage + used.value,
+          ...(details.windows && {
+            windows: details.windows.map((window) => ({
+              ...window,
+              current_usage: window.current_usage + used.value,
+              remaining: window.remaining - used.value,
+            })),
+          }),
+          ...(rule && {
+            matched_rule: {
+              ...rule,
+              current_usage: rule.current_usage + used.value,
+              remaining: rule.remaining - used.value,
+            },
+          }),
+        },
+      }),
+    };
+  }
+
+  /**
+   * Cost served from the cache that Limitly has not counted yet
+   * It must be added to the cost of the next validation sent to the API
+   * @param request - Request being validated
+   * @returns The cost to report
+   */
+  async pending(request: ValidateRequestRequest): Promise<number> {
+    return await this.counters.get<number>(`decision-used:${await this.getKey(request)}`) ?? 0;
+  }
+
+  /**
+   * Records a decision returned by the API
+   * Degraded decisions, scope denials and decisions without usage details are not cached
+   * @param request - Request that was validated
+   * @param result - Validation result from the API
+   * @param counted - Pending cost Limitly has counted since, see `pending`
+   */
+  async record(request: ValidateRequestRequest, result: ValidateRequestResponse, counted = 0): Promise<void> {
+    const details = result.details;
+    const key = await this.getKey(request);
+
+    // Counted cost no longer uses cached headroom, which the API now accounts for
+    if (counted > 0) {
+      await this.counters.incrementWithin(`decision-used:${key}`, -counted, Number.MAX_SAFE_INTEGER, 1);
+    }
+
+    // Scope and expiry denials are not tied to the rate limit period, key changes must apply right away
+    if (result.degraded || !details || (!result.success && !isRateLimited(result))) {
+      return;
+    }
+
+    const now = Date.now();
+    const rule = details.matched_rule;
+    const planRemaining = details.limit - details.current_usage;
+
+    if (!result.success) {
+      // Blocked until every exhausted limit, plan window or endpoint rule, has reset
+      // A costly request denied while quota is left says nothing about cheaper ones, so it is not cached
+      const exhausted = [
+        ...(planRemaining <= 0 ? [details.period_end] : []),
+        ...(details.windows ?? []).filter((window) => window.remaining <= 0).map((window) => window.period_end),
+        ...(rule && rule.remaining <= 0 ? [rule.period_end] : []),
+      ];
+      const periodEnd = Math.max(...exhausted.map((periodEnd) => Date.parse(periodEnd)));
+      if (exhausted.length === 0 || Number.isNaN(periodEnd) || periodEnd <= now) {
+        return;
+      }
+
+      const expiresAt = this.maxBlockedTtl === undefined
+        ? periodEnd
+        : Math.min(periodEnd, now + this.maxBlockedTtl);
+
+      await this.store.set(key, { result, expiresAt });
+      return;
+    }
+
+    const remaining = Math.min(
+      planRemaining,
+      ...(rule ? [rule.remaining] : []),
+      ...(details.windows ?? []).map((window) => window.remaining)
+    );
+    if (details.limit <= 0 || remaining <= 0 || this.allowedTtl <= 0) {
+      return;
+    }
+
+    await this.store.set(key, {
+      result,
+      remaining,
+      expiresAt: now + this.allowedTtl,
+    });
+  }
+
+  // The subject is hashed, API keys must not be readable from the store's key names
+  private async getKey(request: ValidateRequestRequest): Promise<string> {
+    const subject = await hashKey([request.api_key, request.identity].filter(Boolean).join('@'));
+    return `${subject}:${request.method.toUpperCase()}:${request.endpoint}`;
+  }
+}
+
+// Latest reset among the plan windows and matched rule of a decision, in milliseconds since epoch
+function getPeriodEnd(result: ValidateRequestResponse): number {
+  const details = result.details;
+  const periodEnds = [
+    details?.period_end,
+    ...(details?.windows ?? []).map((window) => window.period_end),
+    details?.matched_rule?.period_end,
+  ].map((periodEnd) => periodEnd ? Date.parse(periodEnd) : NaN).filter((time) => !Number.isNaN(time));
+
+  return periodEnds.length > 0 ? Math.max(...periodEnds) : 0;
+}
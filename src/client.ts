@@ -1,5 +1,89 @@
-import axios, { AxiosRequestConfig, AxiosResponse } from 'axios';
-import { LimitlyConfig, LimitlyError, RequestOptions } from './types';
+import { revalidateTag } from 'next/cache';
+import {
+  AuthenticationError,
+  InvalidApiKeyError,
+  LimitlyConfig,
+  LimitlyError,
+  LimitlyErrorOptions,
+  NetworkError,
+  NextJsConfig,
+  NotFoundError,
+  PlanLimitReachedError,
+  QueryParams,
+  RateLimitedError,
+  RequestOptions,
+  ResponseValidationError,
+  RetryConfig,
+  Schema,
+  TimeoutError,
+  Transport,
+  TransportError,
+  TransportRequest,
+  TransportResponse,
+  ValidationFailedError,
+} from './types';
+import { createFetchTransport } from './transports/fetch';
+import { checkSchema } from './schemas/schema';
+
+interface HttpRequestConfig {
+  method: string;
+  body?: any;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Per-call options set by the SDK modules
+ */
+export interface ClientCallOptions<T = unknown> {
+  /**
+   * Next.js cache tags: attached to GET responses,
+   * revalidated after successful mutations
+   */
+  tags?: string[];
+  // Query string parameters, undefined values are skipped
+  params?: QueryParams;
+  // Expected response type, checked when response validation is enabled
+  schema?: Schema<T>;
+}
+
+const DEFAULT_RETRY: Required<RetryConfig> = {
+  maxAttempts: 3,
+  baseDelay: 250,
+  maxDelay: 10000,
+  jitter: true,
+  retryableStatusCodes: [408, 429, 500, 502, 503, 504],
+  retryNonIdempotent: false,
+};
+
+const IDEMPOTENT_METHODS = ['GET', 'PUT', 'DELETE'];
+
+type ResponseErrorClass = new (
+  message: string,
+  statusCode: number,
+  response?: any,
+  options?: LimitlyErrorOptions
+) => LimitlyError;
+
+// Error codes sent by the API in the response payload
+const ERRORS_BY_CODE: Record<string, ResponseErrorClass> = {
+  rate_limited: RateLimitedError,
+  rate_limit_exceeded: RateLimitedError,
+  invalid_api_key: InvalidApiKeyError,
+  authentication_failed: AuthenticationError,
+  not_found: NotFoundError,
+  validation_failed: ValidationFailedError,
+  plan_limit_reached: PlanLimitReachedError,
+};
+
+const ERRORS_BY_STATUS: Record<number, ResponseErrorClass> = {
+  400: ValidationFailedError,
+  401: AuthenticationError,
+  402: PlanLimitReachedError,
+  403: AuthenticationError,
+  404: NotFoundError,
+  422: ValidationFailedError,
+  429: RateLimitedError,
+};
 
 /**
  * HTTP client for making requests to the Limitly API
@@ -9,76 +93,205 @@ export class HttpClient {
   private readonly apiKey: string;
   private readonly baseUrl: string;
   private readonly timeout: number;
+  private readonly transport: Transport;
+  private readonly cacheDefaults: Pick<NextJsConfig, 'cache' | 'revalidate' | 'tags'>;
+  private readonly retry: RetryConfig | false;
+  private readonly responseValidation: LimitlyConfig['responseValidation'];
+  private readonly onInvalidResponse: LimitlyConfig['onInvalidResponse'];
 
-  constructor(config: LimitlyConfig) {
+  constructor(config: LimitlyConfig | NextJsConfig) {
     this.apiKey = config.apiKey;
     this.baseUrl = config.baseUrl || 'https://xfkyofkqbukqtxcuapvf.supabase.co/functions/v1';
     this.timeout = config.timeout || 30000;
+    this.transport = config.transport || createFetchTransport();
+    this.retry = config.retry ?? {};
+    this.responseValidation = config.responseValidation;
+    this.onInvalidResponse = config.onInvalidResponse;
+
+    const { cache, revalidate, tags } = config as NextJsConfig;
+    this.cacheDefaults = {
+      ...(cache !== undefined && { cache }),
+      ...(revalidate !== undefined && { revalidate }),
+      ...(tags && { tags }),
+    };
   }
 
   /**
    * Makes an HTTP request to the Limitly API
    * @param endpoint - The API endpoint to call
-   * @param options - Axios request configuration
+   * @param options - HTTP method, body and headers
    * @param requestOptions - Additional request options including Next.js specific options
+   * @param callOptions - Cache tags and response schema set by the calling module
    * @returns Promise with the response data
    */
   private async makeRequest<T>(
     endpoint: string,
-    options: AxiosRequestConfig = {},
-    requestOptions?: RequestOptions
+    options: HttpRequestConfig,
+    requestOptions?: RequestOptions,
+    callOptions?: ClientCallOptions<T>
   ): Promise<T> {
-    const url = `${this.baseUrl}${endpoint}`;
-    
-    const requestConfig: AxiosRequestConfig = {
-      ...options,
-      headers: {
-        'Authorization': `Bearer ${this.apiKey}`,
-        'Content-Type': 'application/json',
-        ...options.headers,
-        ...requestOptions?.headers,
-      },
-      timeout: requestOptions?.timeout || this.timeout,
-    };
+    const url = `${this.baseUrl}${endpoint}${toQueryString(callOptions?.params)}`;
+    const isGet = options.method === 'GET';
 
     try {
-      const response: AxiosResponse<T> = await axios(url, requestConfig);
-      return response.data;
+      const response = await this.send({
+        url,
+        method: options.method,
+        headers: {
+          'Authorization': `Bearer ${this.apiKey}`,
+          'Content-Type': 'application/json',
+          ...options.headers,
+          ...requestOptions?.headers,
+        },
+        body: options.body,
+        timeout: requestOptions?.timeout || this.timeout,
+        ...(isGet && this.getCacheOptions(requestOptions, callOptions?.tags)),
+      }, requestOptions?.retry);
+
+      if (response.status >= 400) {
+        // Server response error
+        throw createResponseError(response);
+      }
+
+      if (!isGet && callOptions?.tags) {
+        this.revalidateTags(callOptions.tags);
+      }
+
+      if (callOptions?.schema && this.responseValidation) {
+        this.checkResponse(callOptions.schema, response, `${options.method} ${endpoint}`);
+      }
+
+      return response.data as T;
     } catch (error: any) {
       if (error instanceof LimitlyError) {
         throw error;
       }
-      
-      if (error.response) {
-        // Server response error
-        const data = error.response.data;
-        throw new LimitlyError(
-          data.error || `HTTP ${error.response.status}: ${error.response.statusText}`,
-          error.response.status,
-          data
-        );
-      } else if (error.request) {
-        // Network error
-        throw new LimitlyError(
-          `Network error: ${error.message}`,
-          0,
-          { originalError: error.message }
-        );
+
+      if (error instanceof TransportError) {
+        // Network error or timeout
+        const NetworkErrorClass = error.kind === 'timeout' ? TimeoutError : NetworkError;
+        throw new NetworkErrorClass(`Network error: ${error.message}`, { originalError: error.message });
       } else {
         // Unexpected error
-        throw new LimitlyError('Unknown error occurred', 0);
+        throw new LimitlyError('Unknown error occurred', 0, undefined, { code: 'unknown_error' });
       }
     }
   }
 
+  /**
+   * Sends a request through the transport, retrying transient failures
+   * with exponential backoff and jitter
+   * @param request - Transport request
+   * @param retryOverride - Per-request retry policy
+   * @returns Promise with the last transport response
+   */
+  private async send(
+    request: TransportRequest,
+    retryOverride?: RetryConfig | false
+  ): Promise<TransportResponse> {
+    const policy = this.getRetryPolicy(request.method, retryOverride);
+
+    for (let attempt = 1; ; attempt++) {
+      let delay: number;
+
+      try {
+        const response = await this.transport(request);
+
+        if (!policy || !policy.retryableStatusCodes.includes(response.status)) {
+          return response;
+        }
+
+        delay = parseRetryAfter(response.headers['retry-after'])
+          ?? backoffDelay(policy, attempt);
+
+        if (attempt >= policy.maxAttempts || delay > policy.maxDelay) {
+          return response;
+        }
+      } catch (error) {
+        if (!policy || !(error instanceof TransportError) || attempt >= policy.maxAttempts) {
+          throw error;
+        }
+
+        delay = backoffDelay(policy, attempt);
+      }
+
+      await sleep(delay);
+    }
+  }
+
+  /**
+   * Checks a successful response against the expected schema
+   * Strict validation throws, lenient validation reports the mismatches and carries on
+   * @param schema - Expected response type
+   * @param response - Transport response
+   * @param request - Method and endpoint, for error messages
+   */
+  private checkResponse<T>(schema: Schema<T>, response: TransportResponse, request: string): void {
+    const issues = checkSchema(schema, response.data);
+    if (issues.length === 0) {
+      return;
+    }
+
+    const listed = issues.slice(0, 5).map((issue) =>
+      `${issue.path || 'response'}: expected ${issue.expected}, received ${issue.received}`
+    );
+    if (issues.length > listed.length) {
+      listed.push(`${issues.length - listed.length} more`);
+    }
+
+    const requestId = response.headers['x-request-id'];
+    const error = new ResponseValidationError(
+      `Unexpected response from ${request}: ${listed.join('; ')}`,
+      response.status,
+      response.data,
+      issues,
+      { ...(requestId && { requestId }) }
+    );
+
+    if (this.responseValidation === 'strict') {
+      throw error;
+    }
+    if (this.onInvalidResponse) {
+      this.onInvalidResponse(error);
+    } else {
+      console.warn(`[limitly] ${error.message}`);
+    }
+  }
+
+  /**
+   * Resolves the retry policy for a request
+   * Non-idempotent methods are only retried when explicitly enabled
+   */
+  private getRetryPolicy(
+    method: string,
+    retryOverride?: RetryConfig | false
+  ): Required<RetryConfig> | null {
+    if (this.retry === false || retryOverride === false) {
+      return null;
+    }
+
+    const policy = { ...DEFAULT_RETRY, ...this.retry, ...retryOverride };
+
+    if (!IDEMPOTENT_METHODS.includes(method) && !policy.retryNonIdempotent) {
+      return null;
+    }
+
+    return policy;
+  }
+
   /**
    * Makes a GET request to the API with Next.js cache support
    * @param endpoint - The API endpoint
    * @param requestOptions - Additional request options
+   * @param callOptions - Cache tags for the response
    * @returns Promise with the response data
    */
-  async get<T>(endpoint: string, requestOptions?: RequestOptions): Promise<T> {
-    return this.makeRequest<T>(endpoint, { method: 'GET' }, requestOptions);
+  async get<T>(
+    endpoint: string,
+    requestOptions?: RequestOptions,
+    callOptions?: ClientCallOptions<T>
+  ): Promise<T> {
+    return this.makeRequest<T>(endpoint, { method: 'GET' }, requestOptions, callOptions);
   }
 
   /**
@@ -86,17 +299,19 @@ export class HttpClient {
    * @param endpoint - The API endpoint
    * @param body - Request body data
    * @param requestOptions - Additional request options
+   * @param callOptions - Cache tags to revalidate on success
    * @returns Promise with the response data
    */
   async post<T>(
     endpoint: string,
     body?: any,
-    requestOptions?: RequestOptions
+    requestOptions?: RequestOptions,
+    callOptions?: ClientCallOptions<T>
   ): Promise<T> {
     return this.makeRequest<T>(endpoint, {
       method: 'POST',
-      data: body,
-    }, requestOptions);
+      body,
+    }, requestOptions, callOptions);
   }
 
   /**
@@ -104,27 +319,78 @@ export class HttpClient {
    * @param endpoint - The API endpoint
    * @param body - Request body data
    * @param requestOptions - Additional request options
+   * @param callOptions - Cache tags to revalidate on success
    * @returns Promise with the response data
    */
   async put<T>(
     endpoint: string,
     body?: any,
-    requestOptions?: RequestOptions
+    requestOptions?: RequestOptions,
+    callOptions?: ClientCallOptions<T>
   ): Promise<T> {
     return this.makeRequest<T>(endpoint, {
       method: 'PUT',
-      data: body,
-    }, requestOptions);
+      body,
+    }, requestOptions, callOptions);
   }
 
   /**
    * Makes a DELETE request to the API
    * @param endpoint - The API endpoint
    * @param requestOptions - Additional request options
+   * @param callOptions - Cache tags to revalidate on success
    * @returns Promise with the response data
    */
-  async delete<T>(endpoint: string, requestOptions?: RequestOptions): Promise<T> {
-    return this.makeRequest<T>(endpoint, { method: 'DELETE' }, requestOptions);
+  async delete<T>(
+    endpoint: string,
+    requestOptions?: RequestOptions,
+    callOptions?: ClientCallOptions<T>
+  ): Promise<T> {
+    return this.makeRequest<T>(endpoint, { method: 'DELETE' }, requestOptions, callOptions);
+  }
+
+  /**
+   * Resolves Next.js data cache options for a GET request
+   * Request options take precedence over the client configuration
+   */
+  private getCacheOptions(
+    requestOptions?: RequestOptions,
+    tags: string[] = []
+  ): Pick<TransportRequest, 'cache' | 'next'> {
+    const cache = requestOptions?.cache ?? this.cacheDefaults.cache;
+    const revalidate = requestOptions?.revalidate ?? this.cacheDefaults.revalidate;
+
+    if (cache === false) {
+      return { cache: 'no-store' };
+    }
+
+    const allTags = [
+      ...tags,
+      ...(this.cacheDefaults.tags || []),
+      ...(requestOptions?.tags || []),
+    ];
+
+    return {
+      ...(cache === true && revalidate === undefined && { cache: 'force-cache' as const }),
+      next: {
+        ...(revalidate !== undefined && { revalidate }),
+        ...(allTags.length > 0 && { tags: Array.from(new Set(allTags)) }),
+      },
+    };
+  }
+
+  /**
+   * Revalidates Next.js cache tags after a mutation
+   * Ignored outside of a Next.js request scope
+   */
+  private revalidateTags(tags: string[]): void {
+    for (const tag of tags) {
+      try {
+        revalidateTag(tag);
+      } catch {
+        // revalidateTag throws outside of a Server Action or Route Handler
+      }
+    }
   }
 
   /**
@@ -140,4 +406,74 @@ export class HttpClient {
   getApiKey(): string {
     return this.apiKey.substring(0, 8) + '...';
   }
-} 
\ No newline at end of file
+} 
+
+function backoffDelay(policy: Required<RetryConfig>, attempt: number): number {
+  const delay = Math.min(policy.maxDelay, policy.baseDelay * 2 ** (attempt - 1));
+  return policy.jitter ? Math.random() * delay : delay;
+}
+
+/**
+ * Parses a Retry-After header given in seconds or as an HTTP date
+ * @returns Delay in milliseconds, or undefined when absent or invalid
+ */
+function parseRetryAfter(value?: string): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Maps an error response to the matching `LimitlyError` subclass
+ * A code in the payload wins over the HTTP status, a 401 mentioning
+ * the API key is reported as an invalid API key
+ */
+function createResponseError(response: TransportResponse): LimitlyError {
+  const data = response.data;
+  const message = data?.error || `HTTP ${response.status}: ${response.statusText}`;
+  const requestId = response.headers['x-request-id'] || data?.request_id;
+  const retryAfter = parseRetryAfter(response.headers['retry-after']);
+
+  const ErrorClass = (typeof data?.code === 'string' ? ERRORS_BY_CODE[data.code] : undefined)
+    ?? (response.status === 401 && /api key/i.test(message) ? InvalidApiKeyError : ERRORS_BY_STATUS[response.status])
+    ?? LimitlyError;
+
+  return new ErrorClass(message, response.status, data, {
+    ...(requestId && { requestId: String(requestId) }),
+    ...(retryAfter !== undefined && { retryAfter: Math.ceil(retryAfter / 1000) }),
+  });
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Serializes query parameters: arrays as repeated parameters,
+ * dates as ISO strings, undefined values skipped
+ */
+function toQueryString(params?: QueryParams): string {
+  if (!params) {
+    return '';
+  }
+
+  const search = new URLSearchParams();
+  for (const [name, value] of Object.entries(params)) {
+    for (const item of Array.isArray(value) ? value : [value]) {
+      if (item !== undefined) {
+        search.append(name, item instanceof Date ? item.toISOString() : String(item));
+      }
+    }
+  }
+
+  const query = search.toString();
+  return query ? `?${query}` : '';
+}
@@ -3,7 +3,64 @@ import { ApiKeysModule } from './modules/api-keys';
 import { PlansModule } from './modules/plans';
 import { UsersModule } from './modules/users';
 import { ValidationModule } from './modules/validation';
-import { LimitlyConfig, NextJsConfig } from './types';
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import {
+  ArgumentFormats,
+  EdgeMiddlewareOptions,
+  LimitlyConfig,
+  NextJsConfig,
+  NextJsMiddlewareOptions,
+  NormalizedModule,
+  RateLimitWrapperOptions,
+  ValidateOptions,
+  ValidateRequestResponse,
+  WithRateLimitOptions,
+} from './types';
+import { degradedResult, shouldFailOpen } from './utils/failure';
+import { getDenialBody, getDenialStatus, isRateLimited } from './utils/denial';
+import { getRateLimitHeaders, withHeaders } from './utils/headers';
+import { matchesPath, resolveEndpointNormalizer } from './utils/paths';
+import { resolveApiKeyExtractor } from './utils/api-key';
+import { normalizeModule } from './utils/models';
+
+// Arguments converted from normalized models by the modules of `Limitly.normalized`
+const NORMALIZED_ARGUMENTS = {
+  apiKeys: {
+    list: ['list'],
+    iterate: ['list'],
+    listWithUsage: ['list'],
+    listExpiring: ['value', 'list'],
+    create: ['body'],
+    update: ['value', 'body'],
+  },
+  plans: {
+    list: ['list'],
+    iterate: ['list'],
+    listWithUsage: ['list'],
+    create: ['body'],
+    update: ['value', 'body'],
+  },
+  users: {
+    list: ['list'],
+    iterate: ['list'],
+    listWithUsage: ['list'],
+    create: ['body'],
+    update: ['value', 'body'],
+    createKey: ['value', 'body'],
+  },
+  validation: {
+    validateRequest: ['body'],
+  },
+} as const satisfies Record<string, ArgumentFormats>;
+
+// Modules working with camelCase models, see `Limitly.normalized`
+export interface NormalizedModules {
+  apiKeys: NormalizedModule<ApiKeysModule, typeof NORMALIZED_ARGUMENTS.apiKeys>;
+  plans: NormalizedModule<PlansModule, typeof NORMALIZED_ARGUMENTS.plans>;
+  users: NormalizedModule<UsersModule, typeof NORMALIZED_ARGUMENTS.users>;
+  validation: NormalizedModule<ValidationModule, typeof NORMALIZED_ARGUMENTS.validation>;
+}
 
 /**
  * Main Limitly SDK client for Next.js
@@ -44,6 +101,19 @@ export class Limitly {
   public readonly plans: PlansModule;
   public readonly users: UsersModule;
   public readonly validation: ValidationModule;
+  /**
+   * Opt-in model layer over the same modules: payloads use camelCase
+   * properties and `Date` timestamps, and are converted back to the wire format
+   * in requests. The modules above keep returning the API types unchanged
+   *
+   * @example
+   * ```typescript
+   * const { data: user } = await limitly.normalized.users.get(42);
+   * user?.createdAt.getFullYear();
+   * await limitly.normalized.apiKeys.create({ name: 'CI', planId: 'plan_123', expiresAt: new Date('2025-01-01') });
+   * ```
+   */
+  public readonly normalized: NormalizedModules;
 
   private client: HttpClient;
 
@@ -53,7 +123,14 @@ export class Limitly {
     this.apiKeys = new ApiKeysModule(this.client);
     this.plans = new PlansModule(this.client);
     this.users = new UsersModule(this.client);
-    this.validation = new ValidationModule(this.client);
+    this.validation = new ValidationModule(this.client, config.validation);
+
+    this.normalized = {
+      apiKeys: normalizeModule(this.apiKeys, NORMALIZED_ARGUMENTS.apiKeys),
+      plans: normalizeModule(this.plans, NORMALIZED_ARGUMENTS.plans),
+      users: normalizeModule(this.users, NORMALIZED_ARGUMENTS.users),
+      validation: normalizeModule(this.validation, NORMALIZED_ARGUMENTS.validation),
+    };
   }
 
   /**
@@ -64,44 +141,93 @@ export class Limitly {
     return this.client;
   }
 
+  /**
+   * Validates a request on behalf of a wrapper
+   * A failure mode set on the wrapper takes precedence over the module one
+   * The request cost is resolved from the wrapper options
+   * @param request - The incoming request, passed to custom failure policies
+   * @param apiKey - The API key to validate, absent on public endpoints
+   * @param identity - Identity the limits apply to, resolved by the wrapper's `identify`
+   * @param endpoint - The endpoint being accessed
+   * @param method - The HTTP method
+   * @param options - Wrapper cost and failure handling options
+   * @param reserve - Validates the request as a refundable reservation
+   * @returns Promise with validation result
+   */
+  private async validateForWrapper<TRequest>(
+    request: TRequest,
+    apiKey: string | null | undefined,
+    identity: string | null | undefined,
+    endpoint: string,
+    method: string,
+    options?: RateLimitWrapperOptions<TRequest>,
+    reserve = false
+  ): Promise<ValidateRequestResponse> {
+    const cost = typeof options?.cost === 'function' ? await options.cost(request) : options?.cost;
+    const validateOptions: ValidateOptions = {
+      ...(cost !== undefined && { cost }),
+      ...(identity && { identity }),
+    };
+    const validate = (callOptions: ValidateOptions) => reserve
+      ? this.validation.reserve(apiKey || undefined, endpoint, method, callOptions)
+      : this.validation.validate(apiKey || undefined, endpoint, method, callOptions);
+
+    if (!options?.failureMode) {
+      return validate(validateOptions);
+    }
+
+    try {
+      return await validate({ ...validateOptions, failureMode: 'closed' });
+    } catch (error) {
+      if (!shouldFailOpen(options.failureMode, error, request)) {
+        throw error;
+      }
+
+      options.onDegraded?.(error, request);
+      return degradedResult(error);
+    }
+  }
+
   /**
    * Creates a middleware function for Next.js API routes
    * @param options - Middleware configuration options
    * @returns Middleware function
    */
-  createMiddleware(options?: {
-    apiKeyHeader?: string;
-    onRateLimitExceeded?: (req: any, res: any) => void;
-    onValidationError?: (req: any, res: any, error: any) => void;
-  }) {
-    const apiKeyHeader = options?.apiKeyHeader || 'authorization';
+  createMiddleware(options?: NextJsMiddlewareOptions) {
+    const extractApiKey = resolveApiKeyExtractor(options);
+    const normalizeEndpoint = resolveEndpointNormalizer(options);
     
     return async (req: any, res: any, next?: () => void) => {
       try {
-        const apiKey = req.headers?.[apiKeyHeader]?.replace('Bearer ', '') ||
-                      req.headers?.authorization?.replace('Bearer ', '');
+        const apiKey = await extractApiKey(req);
+        const identity = await options?.identify?.(req);
         
-        if (!apiKey) {
+        if (!apiKey && (options?.requireApiKey !== false || !identity)) {
           if (options?.onValidationError) {
             options.onValidationError(req, res, new Error('API Key required'));
           }
           return res.status(401).json({ error: 'API Key required' });
         }
 
-        const result = await this.validation.validate(
+        const result = await this.validateForWrapper(
+          req,
           apiKey,
-          req.url || req.path,
-          req.method
+          identity,
+          await normalizeEndpoint(req.originalUrl || req.url || req.path || '/', req, req.params),
+          req.method,
+          options
         );
 
+        const headers = getRateLimitHeaders(result, options?.rateLimitHeaders);
+        for (const [name, value] of Object.entries(headers)) {
+          res.setHeader?.(name, value);
+        }
+
         if (!result.success) {
-          if (options?.onRateLimitExceeded) {
+          if (options?.onRateLimitExceeded && isRateLimited(result)) {
             options.onRateLimitExceeded(req, res);
           }
-          return res.status(429).json({
-            error: 'Rate limit exceeded',
-            details: result.details
-          });
+          return res.status(getDenialStatus(result)).json(getDenialBody(result));
         }
 
         if (next) {
@@ -124,43 +250,141 @@ export class Limitly {
    */
   withRateLimit(
     handler: (request: Request, ...args: any[]) => Promise<Response>,
-    options?: {
-      apiKeyHeader?: string;
-      onRateLimitExceeded?: (request: Request) => Response;
-    }
+    options?: WithRateLimitOptions
   ) {
-    const apiKeyHeader = options?.apiKeyHeader || 'authorization';
+    const extractApiKey = resolveApiKeyExtractor(options);
+    const normalizeEndpoint = resolveEndpointNormalizer(options);
     
     return async (request: Request, ...args: any[]): Promise<Response> => {
+      let headers: Record<string, string>;
+      let reservationId: string | undefined;
+
       try {
-        const apiKey = request.headers.get(apiKeyHeader)?.replace('Bearer ', '') ||
-                      request.headers.get('authorization')?.replace('Bearer ', '');
+        const apiKey = await extractApiKey(request);
+        const identity = await options?.identify?.(request);
         
-        if (!apiKey) {
+        if (!apiKey && (options?.requireApiKey !== false || !identity)) {
           return Response.json({ error: 'API Key required' }, { status: 401 });
         }
 
-        const result = await this.validation.validate(
+        // App Router passes segment params as the second argument, as a Promise since Next.js 15
+        const params = await args[0]?.params;
+        const result = await this.validateForWrapper(
+          request,
           apiKey,
-          new URL(request.url).pathname,
-          request.method
+          identity,
+          await normalizeEndpoint(new URL(request.url).pathname, request, params),
+          request.method,
+          options,
+          options?.refundOnFailure
         );
 
+        headers = getRateLimitHeaders(result, options?.rateLimitHeaders);
+        reservationId = result.reservation_id;
+
         if (!result.success) {
-          if (options?.onRateLimitExceeded) {
-            return options.onRateLimitExceeded(request);
+          if (options?.onRateLimitExceeded && isRateLimited(result)) {
+            return withHeaders(options.onRateLimitExceeded(request), headers);
           }
-          return Response.json({
-            error: 'Rate limit exceeded',
-            details: result.details
-          }, { status: 429 });
+          return Response.json(getDenialBody(result), { status: getDenialStatus(result), headers });
         }
-
-        return handler(request, ...args);
       } catch (error) {
         console.error('Rate limiting error:', error);
         return Response.json({ error: 'Validation error' }, { status: 500 });
       }
+
+      if (!reservationId) {
+        // Handler errors are not validation errors, let them propagate
+        return withHeaders(await handler(request, ...args), headers);
+      }
+
+      let response: Response;
+      try {
+        response = await handler(request, ...args);
+      } catch (error) {
+        await this.settleQuietly(reservationId, 'refund');
+        throw error;
+      }
+
+      // Served requests are committed so their reservation is not kept until the counters expire
+      await this.settleQuietly(reservationId, response.status >= 500 ? 'refund' : 'commit');
+      return withHeaders(response, headers);
+    };
+  }
+
+  /**
+   * Commits a reservation after a served request, or refunds it after a failed one
+   * Errors are logged, they must not replace the handler's outcome
+   */
+  private async settleQuietly(reservationId: string, outcome: 'commit' | 'refund'): Promise<void> {
+    try {
+      await this.validation[outcome](reservationId);
+    } catch (error) {
+      console.error(`Rate limit ${outcome} error:`, error);
+    }
+  }
+
+  /**
+   * Creates a Next.js middleware for the root `middleware.ts` file
+   * Compatible with the Edge runtime
+   * @param options - Middleware configuration options
+   * @returns Middleware function returning a NextResponse
+   *
+   * @example
+   * ```typescript
+   * // middleware.ts
+   * export const middleware = limitly.nextMiddleware({ matcher: '/api/:path*' });
+   *
+   * export const config = { matcher: '/api/:path*' };
+   * ```
+   */
+  nextMiddleware(options?: EdgeMiddlewareOptions) {
+    const extractApiKey = resolveApiKeyExtractor(options);
+    const normalizeEndpoint = resolveEndpointNormalizer(options);
+
+    return async (request: NextRequest): Promise<Response> => {
+      const pathname = request.nextUrl.pathname;
+
+      if (!matchesPath(pathname, options?.matcher)) {
+        return NextResponse.next();
+      }
+
+      try {
+        const apiKey = await extractApiKey(request);
+        const identity = await options?.identify?.(request);
+
+        if (!apiKey && (options?.requireApiKey !== false || !identity)) {
+          return NextResponse.json({ error: 'API Key required' }, { status: 401 });
+        }
+
+        const result = await this.validateForWrapper(
+          request,
+          apiKey,
+          identity,
+          await normalizeEndpoint(pathname, request),
+          request.method,
+          options
+        );
+
+        const headers = getRateLimitHeaders(result, options?.rateLimitHeaders);
+
+        if (!result.success) {
+          if (options?.onRateLimitExceeded && isRateLimited(result)) {
+            return withHeaders(await options.onRateLimitExceeded(request), headers);
+          }
+          return NextResponse.json(getDenialBody(result), { status: getDenialStatus(result), headers });
+        }
+
+        return NextResponse.next({ headers });
+      } catch (error) {
+        if (options?.onValidationError) {
+          const response = await options.onValidationError(request, error);
+          if (response) {
+            return response;
+          }
+        }
+        return NextResponse.json({ error: 'Validation error' }, { status: 500 });
+      }
     };
   }
 }
@@ -170,10 +394,29 @@ export * from './types';
 
 // Exportar clases individuales para uso avanzado
 export { HttpClient } from './client';
+export { createFetchTransport } from './transports/fetch';
+export { createAxiosTransport } from './transports/axios';
 export { ApiKeysModule } from './modules/api-keys';
 export { PlansModule } from './modules/plans';
 export { UsersModule } from './modules/users';
 export { ValidationModule } from './modules/validation';
+export { CacheTags } from './utils/cache-tags';
+export { getRateLimitHeaders } from './utils/headers';
+export { apiKeyFrom } from './utils/api-key';
+export { identityFrom, getClientIp } from './utils/identity';
+export { schema, checkSchema } from './schemas/schema';
+export { toModel, toWire } from './utils/models';
+export type { ObjectSchema, SchemaShape } from './schemas/schema';
+export {
+  DecisionCache,
+  MemoryDecisionCacheStore,
+  StorageDecisionCacheStore,
+} from './cache/decision-cache';
+export { LocalRateLimiter, PERIOD_MS } from './limiter/local-limiter';
+export { MemoryStorageAdapter } from './storage/memory';
+export type { MemoryStorageOptions } from './storage/memory';
+export { RedisStorageAdapter } from './storage/redis';
+export type { RedisClientLike, RedisStorageOptions } from './storage/redis';
 
 // Exportar la clase principal como default
 export default Limitly; 
\ No newline at end of file
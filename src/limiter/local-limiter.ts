@@ -0,0 +1,404 @@
+import {
+  LocalLimiterAlgorithm,
+  LocalLimiterOptions,
+  MatchedPlanRule,
+  PlanRule,
+  PlanWindow,
+  RequestPeriod,
+  StorageAdapter,
+  ValidateRequestRequest,
+  ValidateRequestResponse,
+  WindowUsage,
+} from '../types';
+import { MemoryStorageAdapter } from '../storage/memory';
+import { hashKey } from '../utils/hash';
+import { compilePathPattern, normalizePathname } from '../utils/paths';
+
+const SECOND = 1000;
+const DAY = 24 * 60 * 60 * SECOND;
+
+/**
+ * Length of each plan period in milliseconds
+ * Months and years are approximated as 30 and 365 days
+ */
+export const PERIOD_MS: Record<RequestPeriod, number> = {
+  second: SECOND,
+  minute: 60 * SECOND,
+  hour: 60 * 60 * SECOND,
+  day: DAY,
+  week: 7 * DAY,
+  month: 30 * DAY,
+  year: 365 * DAY,
+};
+
+interface Decision {
+  allowed: boolean;
+  used: number;
+  periodStart: number;
+  periodEnd: number;
+  // Counter update to revert when the request is refunded
+  consumption?: Consumption;
+}
+
+/**
+ * Quota taken from a counter or token bucket by a reserved request
+ */
+interface Consumption {
+  key: string;
+  cost: number;
+  // Time in milliseconds since epoch after which the counter no longer exists
+  expiresAt: number;
+  // Set for token buckets
+  bucket?: { capacity: number; refillPeriod: number };
+}
+
+/**
+ * In-process rate limiter implementing the `ValidateRequestResponse` contract
+ * Enforces a plan's `max_requests` per `request_period` without calling Limitly,
+ * for tests, local development or as a fallback when Limitly is unreachable
+ * Additional windows and the first endpoint rule matching a request are enforced
+ * on top of the plan limit
+ * Requests with an identity are counted per identity instead of per API key
+ * Counters live in a storage adapter, in memory by default or shared through Redis
+ */
+export class LocalRateLimiter {
+  private readonly algorithm: LocalLimiterAlgorithm;
+  private readonly now: () => number;
+  private readonly storage: StorageAdapter;
+
+  constructor(private readonly options: LocalLimiterOptions = {}) {
+    this.algorithm = options.algorithm || 'fixed-window';
+    this.now = options.now || Date.now;
+    this.storage = options.storage || new MemoryStorageAdapter();
+  }
+
+  /**
+   * Validates and counts a request against the API key's plan, weighted by its cost
+   * With `dry_run` the request is checked without being counted; with `reserve`
+   * an allowed request returns a `reservation_id` that can be refunded
+   * @param data - Request validation data
+   * @returns Promise with validation result
+   */
+  async validate(data: ValidateRequestRequest): Promise<ValidateRequestResponse> {
+    // Counters are shared by every request of an identity, whichever key it uses
+    if (!data.identity && !data.api_key) {
+      return { success: false, reason: 'invalid_key', error: 'API key or identity required' };
+    }
+
+    const plan = (data.api_key && await this.options.resolvePlan?.(data.api_key)) || this.options.plan;
+
+    if (!plan) {
+      return { success: false, reason: 'invalid_key', error: 'No plan configured for this API key' };
+    }
+
+    // Counter names are derived from a hash, API keys must not be readable from a shared store
+    const subject = await hashKey(data.identity || data.api_key || '');
+    const cost = data.cost ?? 1;
+    const dryRun = !!data.dry_run;
+    const rule = plan.rules?.find((entry) => matchesRule(entry, data));
+    // The rule is counted first, its quota is given back below if the plan denies the request
+    const ruleDecision = rule && await this.consume(
+      `${subject}:rule:${rule.id ?? `${rule.method ?? '*'}:${rule.endpoint}`}`,
+      rule.max_requests,
+      rule.request_period,
+      cost,
+      undefined,
+      dryRun
+    );
+    let denied = !!ruleDecision && !ruleDecision.allowed;
+
+    const windows = [
+      {
+        key: subject,
+        max_requests: plan.max_requests,
+        request_period: plan.request_period,
+        ...(plan.burst !== undefined && { burst: plan.burst }),
+      },
+      // Windows may share a period, so each one is counted under its own position in the plan
+      ...(plan.windows ?? []).map((window, index) => ({ ...window, key: `${subject}:${window.request_period}:${index}` })),
+    ].sort((a, b) => PERIOD_MS[a.request_period] - PERIOD_MS[b.request_period]);
+
+    // Shorter windows are checked first, once a request is denied the remaining windows are only read
+    const checked: { window: PlanWindow; decision: Decision }[] = [];
+    const consumptions = ruleDecision?.consumption ? [ruleDecision.consumption] : [];
+    for (const { key, ...window } of windows) {
+      const decision = await this.consume(key, window.max_requests, window.request_period, denied ? 0 : cost, window.burst, dryRun);
+
+      if (decision.consumption) {
+        consumptions.push(decision.consumption);
+      }
+      denied ||= !decision.allowed;
+      checked.push({ window, decision });
+    }
+
+    // A denied request is not served, so the quota taken by its rule and the shorter windows is given back
+    if (denied && consumptions.length > 0) {
+      await this.release(consumptions);
+      for (const decision of [ruleDecision, ...checked.map((entry) => entry.decision)]) {
+        if (decision?.consumption) {
+          decision.used -= decision.consumption.cost;
+        }
+      }
+    }
+
+    const usages = checked.map(({ window, decision }) => toWindowUsage(window, decision));
+    const deniedBy = usages[checked.findIndex(({ decision }) => !decision.allowed)];
+
+    // Report the window that denied the request, or the one closest to its limit
+    const reported = deniedBy ?? usages.reduce((closest, usage) => usage.remaining < closest.remaining ? usage : closest);
+    const details = {
+      current_usage: reported.current_usage,
+      limit: reported.burst ?? reported.max_requests,
+      plan_name: plan.name || 'Local plan',
+      period_start: reported.period_start,
+      period_end: reported.period_end,
+      ...(usages.length > 1 && { request_period: reported.request_period, windows: usages }),
+      ...(rule && ruleDecision && { matched_rule: toMatchedRule(rule, ruleDecision) }),
+    };
+
+    if (denied) {
+      return { success: false, reason: 'rate_limit_exceeded', error: 'Rate limit exceeded', details };
+    }
+    if (!data.reserve || dryRun || consumptions.length === 0) {
+      return { success: true, reason: 'allowed', message: 'Request allowed', details };
+    }
+
+    // Reservations live as long as the counters they can refund
+    const reservationId = `local:${randomId()}`;
+    const expiresAt = Math.max(...consumptions.map((consumption) => consumption.expiresAt));
+    await this.storage.set(`reservation:${reservationId}`, consumptions, expiresAt - this.now());
+
+    return { success: true, reason: 'allowed', message: 'Request allowed', details, reservation_id: reservationId };
+  }
+
+  /**
+   * Confirms a reservation, its quota can no longer be refunded
+   * @param reservationId - Reservation returned by a `reserve` validation
+   */
+  async commit(reservationId: string): Promise<void> {
+    await this.storage.delete(`reservation:${reservationId}`);
+  }
+
+  /**
+   * Gives the quota taken by a reservation back to its counters
+   * Counters whose window already ended are left untouched
+   * @param reservationId - Reservation returned by a `reserve` validation
+   * @returns Whether the reservation existed and was refunded
+   */
+  async refund(reservationId: string): Promise<boolean> {
+    const key = `reservation:${reservationId}`;
+    const consumptions = await this.storage.get<Consumption[]>(key);
+
+    if (!consumptions) {
+      return false;
+    }
+    await this.storage.delete(key);
+    await this.release(consumptions);
+
+    return true;
+  }
+
+  /**
+   * Clears all counters, when the storage adapter supports it
+   */
+  async reset(): Promise<void> {
+    await this.storage.clear?.();
+  }
+
+  /**
+   * Gives quota back to the counters it was taken from
+   * Counters whose window already ended are left untouched
+   */
+  private async release(consumptions: Consumption[]): Promise<void> {
+    const now = this.now();
+
+    for (const { key, cost, expiresAt, bucket } of consumptions) {
+      if (expiresAt <= now) {
+        continue;
+      }
+      if (bucket) {
+        await this.storage.takeTokens(key, { ...bucket, cost: -cost, now });
+      } else {
+        await this.storage.incrementWithin(key, -cost, Number.MAX_SAFE_INTEGER, expiresAt - now);
+      }
+    }
+  }
+
+  /**
+   * Counts a request against a limit, a cost of 0 only reads the current usage
+   * A dry run checks whether `cost` would fit without counting it
+   * Limits with a burst allowance always use a token bucket holding `burst` tokens
+   */
+  private consume(
+    key: string,
+    limit: number,
+    requestPeriod: RequestPeriod,
+    cost: number,
+    burst?: number,
+    dryRun = false
+  ): Promise<Decision> {
+    const period = PERIOD_MS[requestPeriod];
+
+    if (burst !== undefined) {
+      return this.tokenBucket(key, limit, period, cost, dryRun, burst);
+    }
+
+    switch (this.algorithm) {
+      case 'sliding-window':
+        return this.slidingWindow(key, limit, period, cost, dryRun);
+      case 'token-bucket':
+        return this.tokenBucket(key, limit, period, cost, dryRun);
+      default:
+        return this.fixedWindow(key, limit, period, cost, dryRun);
+    }
+  }
+
+  /**
+   * Adds `cost` to a counter within `limit`, or checks that it would fit on a dry run
+   */
+  private async increment(
+    key: string,
+    cost: number,
+    limit: number,
+    expiresAt: number,
+    dryRun: boolean
+  ): Promise<{ allowed: boolean; value: number; consumption?: Consumption }> {
+    const { allowed, value } = await this.storage.incrementWithin(
+      key,
+      dryRun ? 0 : cost,
+      dryRun ? limit - cost : limit,
+      expiresAt - this.now()
+    );
+
+    return allowed && !dryRun && cost > 0
+      ? { allowed, value, consumption: { key, cost, expiresAt } }
+      : { allowed, value };
+  }
+
+  private async fixedWindow(
+    key: string,
+    limit: number,
+    period: number,
+    cost: number,
+    dryRun: boolean
+  ): Promise<Decision> {
+    const now = this.now();
+    const windowStart = Math.floor(now / period) * period;
+    const { value, ...outcome } = await this.increment(
+      `fw:${key}:${windowStart}`,
+      cost,
+      limit,
+      windowStart + period,
+      dryRun
+    );
+
+    return {
+      ...outcome,
+      used: value,
+      periodStart: windowStart,
+      periodEnd: windowStart + period,
+    };
+  }
+
+  /**
+   * Sliding window counter: weights the previous window's count by
+   * how much of it still overlaps the sliding period
+   */
+  private async slidingWindow(
+    key: string,
+    limit: number,
+    period: number,
+    cost: number,
+    dryRun: boolean
+  ): Promise<Decision> {
+    const now = this.now();
+    const windowStart = Math.floor(now / period) * period;
+    const previousCount = await this.storage.get<number>(`sw:${key}:${windowStart - period}`) ?? 0;
+    const overlap = 1 - (now - windowStart) / period;
+    const weighted = Math.floor(previousCount * overlap);
+
+    // The current window is kept for a second period to weight the next one
+    const { value, ...outcome } = await this.increment(
+      `sw:${key}:${windowStart}`,
+      cost,
+      limit - weighted,
+      windowStart + 2 * period,
+      dryRun
+    );
+
+    return {
+      ...outcome,
+      used: weighted + value,
+      periodStart: now - period,
+      periodEnd: windowStart + period,
+    };
+  }
+
+  /**
+   * Token bucket holding `capacity` tokens, refilled at `limit` tokens per period
+   */
+  private async tokenBucket(
+    key: string,
+    limit: number,
+    period: number,
+    cost: number,
+    dryRun: boolean,
+    capacity = limit
+  ): Promise<Decision> {
+    const now = this.now();
+    // Time to refill the whole bucket
+    const bucket = { capacity, refillPeriod: (capacity * period) / limit };
+    const taken = await this.storage.takeTokens(`tb:${key}`, { ...bucket, cost: dryRun ? 0 : cost, now });
+    const { tokens } = taken;
+    const allowed = dryRun ? tokens >= cost : taken.allowed;
+
+    // Blocked requests reset when the next token is available, allowed ones when the bucket is full
+    const missing = allowed ? capacity - tokens : 1 - tokens;
+
+    return {
+      allowed,
+      used: capacity - Math.floor(tokens),
+      periodStart: now,
+      periodEnd: now + Math.ceil((missing * period) / limit),
+      ...(allowed && !dryRun && cost > 0 && {
+        consumption: { key: `tb:${key}`, cost, expiresAt: now + bucket.refillPeriod, bucket },
+      }),
+    };
+  }
+}
+
+// `crypto` is global on the Edge runtime and Node.js 19+, Node.js 18 scripts fall back to Math.random
+function randomId(): string {
+  const webCrypto = (globalThis as { crypto?: Partial<Crypto> }).crypto;
+  if (webCrypto?.randomUUID) {
+    return webCrypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}${Math.random().toString(36).slice(2)}`;
+}
+
+function matchesRule(rule: PlanRule, data: ValidateRequestRequest): boolean {
+  return (!rule.method || rule.method.toUpperCase() === data.method.toUpperCase())
+    && compilePathPattern(rule.endpoint).test(normalizePathname(data.endpoint));
+}
+
+function toMatchedRule(rule: PlanRule, decision: Decision): MatchedPlanRule {
+  return {
+    ...rule,
+    current_usage: decision.used,
+    remaining: Math.max(0, rule.max_requests - decision.used),
+    period_start: new Date(decision.periodStart).toISOString(),
+    period_end: new Date(decision.periodEnd).toISOString(),
+  };
+}
+
+function toWindowUsage(window: PlanWindow, decision: Decision): WindowUsage {
+  const limit = window.burst ?? window.max_requests;
+
+  return {
+    ...window,
+    current_usage: decision.used,
+    remaining: Math.max(0, limit - decision.used),
+    period_start: new Date(decision.periodStart).toISOString(),
+    period_end: new Date(decision.periodEnd).toISOString(),
+  };
+}
@@ -9,7 +9,50 @@ import {
   PaginatedResponse,
   LimitInfo,
   RequestOptions,
+  RotateApiKeyRequest,
+  ApiKeyListOptions,
+  ApiKeyListParams,
 } from '../types';
+import {
+  apiKeyRequestsSchema,
+  apiKeySchema,
+  apiKeyUsageSchema,
+  apiResponseSchema,
+  limitInfoSchema,
+  messageResponseSchema,
+  paginatedResponseSchema,
+} from '../schemas/models';
+import { schema } from '../schemas/schema';
+import { CacheTags } from '../utils/cache-tags';
+import { paginate, paginationParams, pickParams } from '../utils/pagination';
+
+// Filter and sort options sent as query parameters
+const LIST_PARAMS: readonly (keyof ApiKeyListParams)[] = [
+  'status',
+  'plan_id',
+  'user_id',
+  'search',
+  'last_used_from',
+  'last_used_to',
+  'expires_from',
+  'expires_to',
+  'sort',
+  'order',
+];
+
+// Response schemas, checked when response validation is enabled
+const keySchema = apiResponseSchema(apiKeySchema);
+const keyPageSchema = paginatedResponseSchema(apiKeySchema);
+const createdKeySchema = apiResponseSchema(schema.object<ApiKey & { limitInfo?: LimitInfo }>({
+  ...apiKeySchema.shape,
+  limitInfo: schema.optional(limitInfoSchema),
+}));
+const usageSchema = apiResponseSchema(apiKeyUsageSchema);
+const requestsSchema = apiResponseSchema(apiKeyRequestsSchema);
+const keyWithUsagePageSchema = paginatedResponseSchema(schema.object<ApiKey & { usage?: ApiKeyUsage }>({
+  ...apiKeySchema.shape,
+  usage: schema.optional(apiKeyUsageSchema),
+}));
 
 /**
  * Module for managing API Keys
@@ -20,11 +63,61 @@ export class ApiKeysModule {
 
   /**
    * Lists all API Keys for the authenticated owner
-   * @param options - Request options including Next.js cache options
+   * @param options - Request options including Next.js cache options, pagination, filters and sorting
+   * @returns Promise with paginated API keys
+   */
+  async list(options?: ApiKeyListOptions): Promise<PaginatedResponse<ApiKey>> {
+    return this.client.get<PaginatedResponse<ApiKey>>('/keys', options, {
+      schema: keyPageSchema,
+      tags: [CacheTags.keys],
+      params: { ...paginationParams(options), ...pickParams(options, LIST_PARAMS) },
+    });
+  }
+
+  /**
+   * Iterates over all API keys, fetching pages lazily
+   * @param options - Request options, filters, sorting, page size (`limit`) and starting `offset` or `cursor`
+   * @returns Async iterator over API keys
+   *
+   * @example
+   * ```typescript
+   * for await (const key of limitly.apiKeys.iterate({ limit: 100 })) {
+   *   console.log(key.id);
+   * }
+   * ```
+   */
+  iterate(options?: ApiKeyListOptions): AsyncGenerator<ApiKey, void, undefined> {
+    return paginate(
+      (params) => this.client.get<PaginatedResponse<ApiKey>>('/keys', options, {
+        schema: keyPageSchema,
+        tags: [CacheTags.keys],
+        params: { ...paginationParams(params), ...pickParams(options, LIST_PARAMS) },
+      }),
+      options
+    );
+  }
+
+  /**
+   * Lists API Keys expiring within the given time, soonest first
+   * Already expired keys are not included
+   * @param withinSeconds - Time window from now, in seconds (default: 7 days)
+   * @param options - Request options, filters and pagination
    * @returns Promise with paginated API keys
    */
-  async list(options?: RequestOptions): Promise<PaginatedResponse<ApiKey>> {
-    return this.client.get<PaginatedResponse<ApiKey>>('/keys', options);
+  async listExpiring(
+    withinSeconds = 7 * 24 * 60 * 60,
+    options?: ApiKeyListOptions
+  ): Promise<PaginatedResponse<ApiKey>> {
+    // Whole seconds keep the request URL stable for the Next.js data cache
+    const now = Math.floor(Date.now() / 1000) * 1000;
+
+    return this.list({
+      sort: 'expires_at',
+      order: 'asc',
+      ...options,
+      expires_from: new Date(now),
+      expires_to: new Date(now + withinSeconds * 1000),
+    });
   }
 
   /**
@@ -37,7 +130,14 @@ export class ApiKeysModule {
     data: CreateApiKeyRequest,
     options?: RequestOptions
   ): Promise<ApiResponse<ApiKey & { limitInfo?: LimitInfo }>> {
-    return this.client.post<ApiResponse<ApiKey & { limitInfo?: LimitInfo }>>('/keys', data, options);
+    return this.client.post<ApiResponse<ApiKey & { limitInfo?: LimitInfo }>>('/keys', data, options, {
+      schema: createdKeySchema,
+      tags: [
+        CacheTags.keys,
+        ...(data.plan_id ? [CacheTags.plan(data.plan_id)] : []),
+        ...(data.user_id !== undefined ? [CacheTags.user(data.user_id)] : []),
+      ],
+    });
   }
 
   /**
@@ -47,7 +147,10 @@ export class ApiKeysModule {
    * @returns Promise with API key details
    */
   async get(keyId: string, options?: RequestOptions): Promise<ApiResponse<ApiKey>> {
-    return this.client.get<ApiResponse<ApiKey>>(`/keys/${keyId}`, options);
+    return this.client.get<ApiResponse<ApiKey>>(`/keys/${keyId}`, options, {
+      schema: keySchema,
+      tags: [CacheTags.keys, CacheTags.key(keyId)],
+    });
   }
 
   /**
@@ -62,7 +165,10 @@ export class ApiKeysModule {
     data: UpdateApiKeyRequest,
     options?: RequestOptions
   ): Promise<ApiResponse<ApiKey>> {
-    return this.client.put<ApiResponse<ApiKey>>(`/keys/${keyId}`, data, options);
+    return this.client.put<ApiResponse<ApiKey>>(`/keys/${keyId}`, data, options, {
+      schema: keySchema,
+      tags: [CacheTags.keys, CacheTags.key(keyId)],
+    });
   }
 
   /**
@@ -72,11 +178,15 @@ export class ApiKeysModule {
    * @returns Promise with deletion confirmation
    */
   async delete(keyId: string, options?: RequestOptions): Promise<ApiResponse<{ message: string }>> {
-    return this.client.delete<ApiResponse<{ message: string }>>(`/keys/${keyId}`, options);
+    return this.client.delete<ApiResponse<{ message: string }>>(`/keys/${keyId}`, options, {
+      schema: messageResponseSchema,
+      tags: [CacheTags.keys, CacheTags.key(keyId)],
+    });
   }
 
   /**
    * Regenerates an existing API Key
+   * The previous secret stops working immediately, use `rotate` for a grace period
    * @param keyId - The API key ID
    * @param options - Request options
    * @returns Promise with regenerated API key
@@ -85,7 +195,57 @@ export class ApiKeysModule {
     keyId: string,
     options?: RequestOptions
   ): Promise<ApiResponse<ApiKey>> {
-    return this.client.post<ApiResponse<ApiKey>>(`/keys/${keyId}/regenerate`, undefined, options);
+    return this.client.post<ApiResponse<ApiKey>>(`/keys/${keyId}/regenerate`, undefined, options, {
+      schema: keySchema,
+      tags: [CacheTags.keys, CacheTags.key(keyId)],
+    });
+  }
+
+  /**
+   * Starts a key rotation: issues a new secret while the previous one
+   * stays valid for a grace period, so deployed clients can be updated
+   * @param keyId - The API key ID
+   * @param data - Rotation options, e.g. `{ graceSeconds: 86400 }`
+   * @param options - Request options
+   * @returns Promise with the API key, its new secret and rotation state
+   */
+  async rotate(
+    keyId: string,
+    data: RotateApiKeyRequest = {},
+    options?: RequestOptions
+  ): Promise<ApiResponse<ApiKey>> {
+    return this.client.post<ApiResponse<ApiKey>>(`/keys/${keyId}/rotate`, {
+      ...(data.graceSeconds !== undefined && { grace_seconds: data.graceSeconds }),
+    }, options, {
+      schema: keySchema,
+      tags: [CacheTags.keys, CacheTags.key(keyId)],
+    });
+  }
+
+  /**
+   * Finishes a rotation early, revoking the previous secret
+   * @param keyId - The API key ID
+   * @param options - Request options
+   * @returns Promise with the API key
+   */
+  async completeRotation(keyId: string, options?: RequestOptions): Promise<ApiResponse<ApiKey>> {
+    return this.client.post<ApiResponse<ApiKey>>(`/keys/${keyId}/rotate/complete`, undefined, options, {
+      schema: keySchema,
+      tags: [CacheTags.keys, CacheTags.key(keyId)],
+    });
+  }
+
+  /**
+   * Cancels a rotation, revoking the new secret and keeping the previous one
+   * @param keyId - The API key ID
+   * @param options - Request options
+   * @returns Promise with the API key
+   */
+  async cancelRotation(keyId: string, options?: RequestOptions): Promise<ApiResponse<ApiKey>> {
+    return this.client.post<ApiResponse<ApiKey>>(`/keys/${keyId}/rotate/cancel`, undefined, options, {
+      schema: keySchema,
+      tags: [CacheTags.keys, CacheTags.key(keyId)],
+    });
   }
 
   /**
@@ -95,7 +255,10 @@ export class ApiKeysModule {
    * @returns Promise with usage statistics
    */
   async getUsage(keyId: string, options?: RequestOptions): Promise<ApiResponse<ApiKeyUsage>> {
-    return this.client.get<ApiResponse<ApiKeyUsage>>(`/keys/${keyId}/usage`, options);
+    return this.client.get<ApiResponse<ApiKeyUsage>>(`/keys/${keyId}/usage`, options, {
+      schema: usageSchema,
+      tags: [CacheTags.keys, CacheTags.key(keyId)],
+    });
   }
 
   /**
@@ -108,15 +271,22 @@ export class ApiKeysModule {
     keyId: string,
     options?: RequestOptions
   ): Promise<ApiResponse<ApiKeyRequestsResponse>> {
-    return this.client.get<ApiResponse<ApiKeyRequestsResponse>>(`/keys/${keyId}/requests`, options);
+    return this.client.get<ApiResponse<ApiKeyRequestsResponse>>(`/keys/${keyId}/requests`, options, {
+      schema: requestsSchema,
+      tags: [CacheTags.keys, CacheTags.key(keyId)],
+    });
   }
 
   /**
    * Gets API keys with usage statistics (optimized for Next.js)
-   * @param options - Request options
+   * @param options - Request options including pagination, filters and sorting
    * @returns Promise with API keys and their usage
    */
-  async listWithUsage(options?: RequestOptions): Promise<PaginatedResponse<ApiKey & { usage?: ApiKeyUsage }>> {
-    return this.client.get<PaginatedResponse<ApiKey & { usage?: ApiKeyUsage }>>('/keys/with-usage', options);
+  async listWithUsage(options?: ApiKeyListOptions): Promise<PaginatedResponse<ApiKey & { usage?: ApiKeyUsage }>> {
+    return this.client.get<PaginatedResponse<ApiKey & { usage?: ApiKeyUsage }>>('/keys/with-usage', options, {
+      schema: keyWithUsagePageSchema,
+      tags: [CacheTags.keys],
+      params: { ...paginationParams(options), ...pickParams(options, LIST_PARAMS) },
+    });
   }
 } 
\ No newline at end of file
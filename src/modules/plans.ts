@@ -9,7 +9,39 @@ import {
   ApiResponse,
   PaginatedResponse,
   RequestOptions,
+  PlanListOptions,
+  PlanListParams,
 } from '../types';
+import {
+  apiResponseSchema,
+  messageResponseSchema,
+  paginatedResponseSchema,
+  planKeysSchema,
+  planSchema,
+  planUsageSchema,
+  planUsersSchema,
+} from '../schemas/models';
+import { schema } from '../schemas/schema';
+import { CacheTags } from '../utils/cache-tags';
+import { paginate, paginationParams, pickParams } from '../utils/pagination';
+
+// Filter and sort options sent as query parameters
+const LIST_PARAMS: readonly (keyof PlanListParams)[] = [
+  'is_active',
+  'sort',
+  'order',
+];
+
+// Response schemas, checked when response validation is enabled
+const planResponseSchema = apiResponseSchema(planSchema);
+const planPageSchema = paginatedResponseSchema(planSchema);
+const usageSchema = apiResponseSchema(planUsageSchema);
+const usersSchema = apiResponseSchema(planUsersSchema);
+const keysSchema = apiResponseSchema(planKeysSchema);
+const planWithUsagePageSchema = paginatedResponseSchema(schema.object<Plan & { usage?: PlanUsage }>({
+  ...planSchema.shape,
+  usage: schema.optional(planUsageSchema),
+}));
 
 /**
  * Module for managing Plans
@@ -20,11 +52,38 @@ export class PlansModule {
 
   /**
    * Lists all plans
-   * @param options - Request options including Next.js cache options
+   * @param options - Request options including Next.js cache options, pagination, filters and sorting
    * @returns Promise with paginated plans
    */
-  async list(options?: RequestOptions): Promise<PaginatedResponse<Plan>> {
-    return this.client.get<PaginatedResponse<Plan>>('/plans', options);
+  async list(options?: PlanListOptions): Promise<PaginatedResponse<Plan>> {
+    return this.client.get<PaginatedResponse<Plan>>('/plans', options, {
+      schema: planPageSchema,
+      tags: [CacheTags.plans],
+      params: { ...paginationParams(options), ...pickParams(options, LIST_PARAMS) },
+    });
+  }
+
+  /**
+   * Iterates over all plans, fetching pages lazily
+   * @param options - Request options, filters, sorting, page size (`limit`) and starting `offset` or `cursor`
+   * @returns Async iterator over plans
+   *
+   * @example
+   * ```typescript
+   * for await (const plan of limitly.plans.iterate({ limit: 100 })) {
+   *   console.log(plan.id);
+   * }
+   * ```
+   */
+  iterate(options?: PlanListOptions): AsyncGenerator<Plan, void, undefined> {
+    return paginate(
+      (params) => this.client.get<PaginatedResponse<Plan>>('/plans', options, {
+        schema: planPageSchema,
+        tags: [CacheTags.plans],
+        params: { ...paginationParams(params), ...pickParams(options, LIST_PARAMS) },
+      }),
+      options
+    );
   }
 
   /**
@@ -37,7 +96,10 @@ export class PlansModule {
     data: CreatePlanRequest,
     options?: RequestOptions
   ): Promise<ApiResponse<Plan>> {
-    return this.client.post<ApiResponse<Plan>>('/plans', data, options);
+    return this.client.post<ApiResponse<Plan>>('/plans', data, options, {
+      schema: planResponseSchema,
+      tags: [CacheTags.plans],
+    });
   }
 
   /**
@@ -47,7 +109,10 @@ export class PlansModule {
    * @returns Promise with plan details
    */
   async get(planId: string, options?: RequestOptions): Promise<ApiResponse<Plan>> {
-    return this.client.get<ApiResponse<Plan>>(`/plans/${planId}`, options);
+    return this.client.get<ApiResponse<Plan>>(`/plans/${planId}`, options, {
+      schema: planResponseSchema,
+      tags: [CacheTags.plans, CacheTags.plan(planId)],
+    });
   }
 
   /**
@@ -62,7 +127,10 @@ export class PlansModule {
     data: UpdatePlanRequest,
     options?: RequestOptions
   ): Promise<ApiResponse<Plan>> {
-    return this.client.put<ApiResponse<Plan>>(`/plans/${planId}`, data, options);
+    return this.client.put<ApiResponse<Plan>>(`/plans/${planId}`, data, options, {
+      schema: planResponseSchema,
+      tags: [CacheTags.plans, CacheTags.plan(planId)],
+    });
   }
 
   /**
@@ -72,7 +140,10 @@ export class PlansModule {
    * @returns Promise with deletion confirmation
    */
   async delete(planId: string, options?: RequestOptions): Promise<ApiResponse<{ message: string }>> {
-    return this.client.delete<ApiResponse<{ message: string }>>(`/plans/${planId}`, options);
+    return this.client.delete<ApiResponse<{ message: string }>>(`/plans/${planId}`, options, {
+      schema: messageResponseSchema,
+      tags: [CacheTags.plans, CacheTags.plan(planId)],
+    });
   }
 
   /**
@@ -82,7 +153,10 @@ export class PlansModule {
    * @returns Promise with plan usage statistics
    */
   async getUsage(planId: string, options?: RequestOptions): Promise<ApiResponse<PlanUsage>> {
-    return this.client.get<ApiResponse<PlanUsage>>(`/plans/${planId}/usage`, options);
+    return this.client.get<ApiResponse<PlanUsage>>(`/plans/${planId}/usage`, options, {
+      schema: usageSchema,
+      tags: [CacheTags.plans, CacheTags.plan(planId)],
+    });
   }
 
   /**
@@ -92,7 +166,10 @@ export class PlansModule {
    * @returns Promise with plan users
    */
   async getUsers(planId: string, options?: RequestOptions): Promise<ApiResponse<PlanUsersResponse>> {
-    return this.client.get<ApiResponse<PlanUsersResponse>>(`/plans/${planId}/users`, options);
+    return this.client.get<ApiResponse<PlanUsersResponse>>(`/plans/${planId}/users`, options, {
+      schema: usersSchema,
+      tags: [CacheTags.plans, CacheTags.plan(planId), CacheTags.users],
+    });
   }
 
   /**
@@ -102,15 +179,22 @@ export class PlansModule {
    * @returns Promise with plan API keys
    */
   async getKeys(planId: string, options?: RequestOptions): Promise<ApiResponse<PlanKeysResponse>> {
-    return this.client.get<ApiResponse<PlanKeysResponse>>(`/plans/${planId}/keys`, options);
+    return this.client.get<ApiResponse<PlanKeysResponse>>(`/plans/${planId}/keys`, options, {
+      schema: keysSchema,
+      tags: [CacheTags.plans, CacheTags.plan(planId), CacheTags.keys],
+    });
   }
 
   /**
    * Gets plans with usage statistics (optimized for Next.js)
-   * @param options - Request options
+   * @param options - Request options including pagination, filters and sorting
    * @returns Promise with plans and their usage
    */
-  async listWithUsage(options?: RequestOptions): Promise<PaginatedResponse<Plan & { usage?: PlanUsage }>> {
-    return this.client.get<PaginatedResponse<Plan & { usage?: PlanUsage }>>('/plans/with-usage', options);
+  async listWithUsage(options?: PlanListOptions): Promise<PaginatedResponse<Plan & { usage?: PlanUsage }>> {
+    return this.client.get<PaginatedResponse<Plan & { usage?: PlanUsage }>>('/plans/with-usage', options, {
+      schema: planWithUsagePageSchema,
+      tags: [CacheTags.plans],
+      params: { ...paginationParams(options), ...pickParams(options, LIST_PARAMS) },
+    });
   }
 } 
\ No newline at end of file
@@ -5,10 +5,44 @@ import {
   UpdateUserRequest,
   UserUsage,
   ApiKey,
+  CreateApiKeyRequest,
   ApiResponse,
   PaginatedResponse,
   RequestOptions,
+  UserListOptions,
+  UserListParams,
 } from '../types';
+import {
+  apiKeySchema,
+  apiResponseSchema,
+  messageResponseSchema,
+  paginatedResponseSchema,
+  userSchema,
+  userUsageSchema,
+} from '../schemas/models';
+import { schema } from '../schemas/schema';
+import { CacheTags } from '../utils/cache-tags';
+import { paginate, paginationParams, pickParams } from '../utils/pagination';
+
+// Filter and sort options sent as query parameters
+const LIST_PARAMS: readonly (keyof UserListParams)[] = [
+  'is_disabled',
+  'plan_id',
+  'email',
+  'sort',
+  'order',
+];
+
+// Response schemas, checked when response validation is enabled
+const userResponseSchema = apiResponseSchema(userSchema);
+const userPageSchema = paginatedResponseSchema(userSchema);
+const usageSchema = apiResponseSchema(userUsageSchema);
+const keySchema = apiResponseSchema(apiKeySchema);
+const keysSchema = apiResponseSchema(schema.array(apiKeySchema));
+const userWithUsagePageSchema = paginatedResponseSchema(schema.object<User & { usage?: UserUsage }>({
+  ...userSchema.shape,
+  usage: schema.optional(userUsageSchema),
+}));
 
 /**
  * Module for managing Users
@@ -19,11 +53,38 @@ export class UsersModule {
 
   /**
    * Lists all users
-   * @param options - Request options including Next.js cache options
+   * @param options - Request options including Next.js cache options, pagination, filters and sorting
    * @returns Promise with paginated users
    */
-  async list(options?: RequestOptions): Promise<PaginatedResponse<User>> {
-    return this.client.get<PaginatedResponse<User>>('/users', options);
+  async list(options?: UserListOptions): Promise<PaginatedResponse<User>> {
+    return this.client.get<PaginatedResponse<User>>('/users', options, {
+      schema: userPageSchema,
+      tags: [CacheTags.users],
+      params: { ...paginationParams(options), ...pickParams(options, LIST_PARAMS) },
+    });
+  }
+
+  /**
+   * Iterates over all users, fetching pages lazily
+   * @param options - Request options, filters, sorting, page size (`limit`) and starting `offset` or `cursor`
+   * @returns Async iterator over users
+   *
+   * @example
+   * ```typescript
+   * for await (const user of limitly.users.iterate({ limit: 100 })) {
+   *   console.log(user.user_id);
+   * }
+   * ```
+   */
+  iterate(options?: UserListOptions): AsyncGenerator<User, void, undefined> {
+    return paginate(
+      (params) => this.client.get<PaginatedResponse<User>>('/users', options, {
+        schema: userPageSchema,
+        tags: [CacheTags.users],
+        params: { ...paginationParams(params), ...pickParams(options, LIST_PARAMS) },
+      }),
+      options
+    );
   }
 
   /**
@@ -36,7 +97,10 @@ export class UsersModule {
     data: CreateUserRequest,
     options?: RequestOptions
   ): Promise<ApiResponse<User>> {
-    return this.client.post<ApiResponse<User>>('/users', data, options);
+    return this.client.post<ApiResponse<User>>('/users', data, options, {
+      schema: userResponseSchema,
+      tags: [CacheTags.users],
+    });
   }
 
   /**
@@ -46,7 +110,10 @@ export class UsersModule {
    * @returns Promise with user details
    */
   async get(userId: number, options?: RequestOptions): Promise<ApiResponse<User>> {
-    return this.client.get<ApiResponse<User>>(`/users/${userId}`, options);
+    return this.client.get<ApiResponse<User>>(`/users/${userId}`, options, {
+      schema: userResponseSchema,
+      tags: [CacheTags.users, CacheTags.user(userId)],
+    });
   }
 
   /**
@@ -61,7 +128,10 @@ export class UsersModule {
     data: UpdateUserRequest,
     options?: RequestOptions
   ): Promise<ApiResponse<User>> {
-    return this.client.put<ApiResponse<User>>(`/users/${userId}`, data, options);
+    return this.client.put<ApiResponse<User>>(`/users/${userId}`, data, options, {
+      schema: userResponseSchema,
+      tags: [CacheTags.users, CacheTags.user(userId)],
+    });
   }
 
   /**
@@ -71,7 +141,10 @@ export class UsersModule {
    * @returns Promise with deletion confirmation
    */
   async delete(userId: number, options?: RequestOptions): Promise<ApiResponse<{ message: string }>> {
-    return this.client.delete<ApiResponse<{ message: string }>>(`/users/${userId}`, options);
+    return this.client.delete<ApiResponse<{ message: string }>>(`/users/${userId}`, options, {
+      schema: messageResponseSchema,
+      tags: [CacheTags.users, CacheTags.user(userId)],
+    });
   }
 
   /**
@@ -81,7 +154,10 @@ export class UsersModule {
    * @returns Promise with user usage
    */
   async getUsage(userId: number, options?: RequestOptions): Promise<ApiResponse<UserUsage>> {
-    return this.client.get<ApiResponse<UserUsage>>(`/users/${userId}/usage`, options);
+    return this.client.get<ApiResponse<UserUsage>>(`/users/${userId}/usage`, options, {
+      schema: usageSchema,
+      tags: [CacheTags.users, CacheTags.user(userId)],
+    });
   }
 
   /**
@@ -91,7 +167,10 @@ export class UsersModule {
    * @returns Promise with user API keys
    */
   async getKeys(userId: number, options?: RequestOptions): Promise<ApiResponse<ApiKey[]>> {
-    return this.client.get<ApiResponse<ApiKey[]>>(`/users/${userId}/keys`, options);
+    return this.client.get<ApiResponse<ApiKey[]>>(`/users/${userId}/keys`, options, {
+      schema: keysSchema,
+      tags: [CacheTags.users, CacheTags.user(userId), CacheTags.keys],
+    });
   }
 
   /**
@@ -103,18 +182,25 @@ export class UsersModule {
    */
   async createKey(
     userId: number,
-    data: { name: string; plan_id?: string; status?: 'active' | 'inactive' },
+    data: Omit<CreateApiKeyRequest, 'user_id'>,
     options?: RequestOptions
   ): Promise<ApiResponse<ApiKey>> {
-    return this.client.post<ApiResponse<ApiKey>>(`/users/${userId}/keys`, data, options);
+    return this.client.post<ApiResponse<ApiKey>>(`/users/${userId}/keys`, data, options, {
+      schema: keySchema,
+      tags: [CacheTags.users, CacheTags.user(userId), CacheTags.keys],
+    });
   }
 
   /**
    * Gets users with usage statistics (optimized for Next.js)
-   * @param options - Request options
+   * @param options - Request options including pagination, filters and sorting
    * @returns Promise with users and their usage
    */
-  async listWithUsage(options?: RequestOptions): Promise<PaginatedResponse<User & { usage?: UserUsage }>> {
-    return this.client.get<PaginatedResponse<User & { usage?: UserUsage }>>('/users/with-usage', options);
+  async listWithUsage(options?: UserListOptions): Promise<PaginatedResponse<User & { usage?: UserUsage }>> {
+    return this.client.get<PaginatedResponse<User & { usage?: UserUsage }>>('/users/with-usage', options, {
+      schema: userWithUsagePageSchema,
+      tags: [CacheTags.users],
+      params: { ...paginationParams(options), ...pickParams(options, LIST_PARAMS) },
+    });
   }
 } 
\ No newline at end of file
@@ -1,52 +1,221 @@
 import { HttpClient } from '../client';
 import {
+  ApiResponse,
+  RequestOptions,
   ValidateRequestRequest,
   ValidateRequestResponse,
-  RequestOptions,
+  ValidateOptions,
+  ValidationOptions,
 } from '../types';
+import { DecisionCache } from '../cache/decision-cache';
+import { LocalRateLimiter } from '../limiter/local-limiter';
+import { degradedResult, isValidationOutage, shouldFailOpen } from '../utils/failure';
+import { isRateLimited } from '../utils/denial';
+import { apiResponseSchema, validateResponseSchema } from '../schemas/models';
+import { schema } from '../schemas/schema';
+
+// Commit and refund answers carry no data worth checking
+const reservationResponseSchema = apiResponseSchema(schema.unknown());
 
 /**
  * Module for validating requests
  * Optimized for Next.js server-side rendering
  */
 export class ValidationModule {
-  constructor(private client: HttpClient) {}
+  private readonly mode: 'remote' | 'local' | 'hybrid';
+  private readonly cache: DecisionCache | undefined;
+  private readonly local: LocalRateLimiter | undefined;
+
+  constructor(
+    private client: HttpClient,
+    private options: ValidationOptions = {}
+  ) {
+    this.mode = options.mode || 'remote';
+
+    const storage = options.storage;
+
+    if (this.mode !== 'remote') {
+      this.local = new LocalRateLimiter({ ...(storage && { storage }), ...options.local });
+    }
+    // Local decisions are already in-process, caching them would skip counting
+    if (options.cache && this.mode !== 'local') {
+      this.cache = new DecisionCache({
+        ...(storage && { storage }),
+        ...(options.cache === true ? {} : options.cache),
+      });
+    }
+  }
 
   /**
    * Validates a user request using their API Key
+   * Served from the decision cache when enabled and a fresh decision exists
    * @param data - Request validation data
-   * @param options - Request options including Next.js cache options
+   * @param options - Request options including the failure mode
    * @returns Promise with validation result
    */
   async validateRequest(
     data: ValidateRequestRequest,
-    options?: RequestOptions
+    options?: ValidateOptions
+  ): Promise<ValidateRequestResponse> {
+    if (!this.cache) {
+      return this.decide(data, options);
+    }
+
+    const cached = await this.cache.lookup(data);
+    if (cached) {
+      return cached;
+    }
+
+    // Requests served from the cache since the last call are counted with this one
+    const pending = await this.cache.pending(data);
+    const result = await this.decide(pending > 0 ? { ...data, cost: (data.cost ?? 1) + pending } : data, options);
+    const counted = isCounted(result) || (pending > 0 && isRateLimited(result) && await this.report(data, pending))
+      ? pending
+      : 0;
+
+    await this.cache.record(data, result, counted);
+    return result;
+  }
+
+  /**
+   * Reports cost served from the decision cache on its own, when the request
+   * carrying it was denied, so the served requests are still counted
+   * Errors are ignored, the cost stays pending until the next call
+   * @returns Whether Limitly counted the cost
+   */
+  private async report(data: ValidateRequestRequest, cost: number): Promise<boolean> {
+    try {
+      return isCounted(await this.decide({ ...data, cost }, { failureMode: 'closed' }));
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Decides a request with the local limiter or the Limitly API
+   * When the API is unavailable, hybrid mode falls back to the local limiter;
+   * otherwise the configured failure mode decides whether the error is thrown
+   * or the request is allowed as degraded
+   */
+  private async decide(
+    data: ValidateRequestRequest,
+    options?: ValidateOptions
   ): Promise<ValidateRequestResponse> {
-    return this.client.post<ValidateRequestResponse>('/validate', data, options);
+    if (this.mode === 'local' && this.local) {
+      return this.local.validate(data);
+    }
+
+    const { failureMode, ...requestOptions }: ValidateOptions = options ?? {};
+
+    try {
+      return await this.client.post<ValidateRequestResponse>('/validate', data, requestOptions, {
+        schema: validateResponseSchema,
+      });
+    } catch (error) {
+      if (this.local && isValidationOutage(error)) {
+        this.options.onDegraded?.(error, data);
+        return { ...(await this.local.validate(data)), degraded: true };
+      }
+
+      if (!shouldFailOpen(failureMode ?? this.options.failureMode, error, data)) {
+        throw error;
+      }
+
+      this.options.onDegraded?.(error, data);
+      return degradedResult(error);
+    }
   }
 
   /**
    * Convenience method to validate a request with individual parameters
+   * Pass an `identity` option to apply limits per user, IP or session,
+   * the API key may then be omitted for public endpoints
    * @param apiKey - The API key to validate
    * @param endpoint - The endpoint being accessed
    * @param method - The HTTP method
-   * @param options - Request options including Next.js cache options
+   * @param options - Request options including the failure mode and request cost
    * @returns Promise with validation result
    */
   async validate(
-    apiKey: string,
+    apiKey: string | undefined,
+    endpoint: string,
+    method: string,
+    options?: ValidateOptions
+  ): Promise<ValidateRequestResponse> {
+    return this.validateRequest(toRequestData(apiKey, endpoint, method, options), options);
+  }
+
+  /**
+   * Checks whether a request would be allowed without counting it
+   * Dry runs bypass the decision cache, so they always reflect current usage
+   * @param apiKey - The API key to check
+   * @param endpoint - The endpoint being accessed
+   * @param method - The HTTP method
+   * @param options - Request options including the failure mode and request cost
+   * @returns Promise with the result the request would get
+   */
+  async check(
+    apiKey: string | undefined,
     endpoint: string,
     method: string,
-    options?: RequestOptions
+    options?: ValidateOptions
   ): Promise<ValidateRequestResponse> {
-    return this.validateRequest(
-      {
-        api_key: apiKey,
-        endpoint,
-        method,
-      },
-      options
-    );
+    return this.decide({ ...toRequestData(apiKey, endpoint, method, options), dry_run: true }, options);
+  }
+
+  /**
+   * Validates and counts a request as a reservation
+   * Allowed requests return a `reservation_id`: refund it when the request fails,
+   * or commit it once it succeeded. Reservations left open are committed when they expire
+   * @param apiKey - The API key to validate
+   * @param endpoint - The endpoint being accessed
+   * @param method - The HTTP method
+   * @param options - Request options including the failure mode and request cost
+   * @returns Promise with validation result
+   */
+  async reserve(
+    apiKey: string | undefined,
+    endpoint: string,
+    method: string,
+    options?: ValidateOptions
+  ): Promise<ValidateRequestResponse> {
+    return this.decide({ ...toRequestData(apiKey, endpoint, method, options), reserve: true }, options);
+  }
+
+  /**
+   * Confirms a reservation, its quota can no longer be refunded
+   * @param reservationId - The reservation ID returned by `reserve`
+   * @param options - Request options
+   * @returns Promise with the operation result
+   */
+  async commit(reservationId: string, options?: RequestOptions): Promise<ApiResponse> {
+    // Reservations made by the local limiter (local mode or hybrid fallback) never reach Limitly
+    if (this.local && isLocalReservation(reservationId)) {
+      await this.local.commit(reservationId);
+      return { success: true };
+    }
+
+    return this.client.post<ApiResponse>('/validate/commit', { reservation_id: reservationId }, options, {
+      schema: reservationResponseSchema,
+    });
+  }
+
+  /**
+   * Gives the quota taken by a reservation back
+   * @param reservationId - The reservation ID returned by `reserve`
+   * @param options - Request options
+   * @returns Promise with the operation result
+   */
+  async refund(reservationId: string, options?: RequestOptions): Promise<ApiResponse> {
+    if (this.local && isLocalReservation(reservationId)) {
+      return await this.local.refund(reservationId)
+        ? { success: true }
+        : { success: false, error: 'Reservation not found' };
+    }
+
+    return this.client.post<ApiResponse>('/validate/refund', { reservation_id: reservationId }, options, {
+      schema: reservationResponseSchema,
+    });
   }
 
   /**
@@ -55,23 +224,46 @@ export class ValidationModule {
    * @param endpoint - The endpoint being accessed
    * @param method - The HTTP method
    * @param context - Additional context (e.g., user ID, session info)
-   * @param options - Request options
+   * @param options - Request options including the failure mode and request cost
    * @returns Promise with validation result
    */
   async validateWithContext(
-    apiKey: string,
+    apiKey: string | undefined,
     endpoint: string,
     method: string,
     context?: Record<string, any>,
-    options?: RequestOptions
+    options?: ValidateOptions
   ): Promise<ValidateRequestResponse> {
     const requestData: ValidateRequestRequest & { context?: Record<string, any> } = {
-      api_key: apiKey,
-      endpoint,
-      method,
+      ...toRequestData(apiKey, endpoint, method, options),
       ...(context && { context }),
     };
 
-    return this.client.post<ValidateRequestResponse>('/validate', requestData, options);
+    // Context may change the decision, so it bypasses the decision cache
+    return this.decide(requestData, options);
   }
-} 
\ No newline at end of file
+}
+
+function toRequestData(
+  apiKey: string | undefined,
+  endpoint: string,
+  method: string,
+  options?: ValidateOptions
+): ValidateRequestRequest {
+  return {
+    ...(apiKey !== undefined && { api_key: apiKey }),
+    ...(options?.identity && { identity: options.identity }),
+    endpoint,
+    method,
+    ...(options?.cost !== undefined && { cost: options.cost }),
+  };
+}
+
+function isLocalReservation(reservationId: string): boolean {
+  return reservationId.startsWith('local:');
+}
+
+// Allowed by Limitly itself, so the request cost was counted
+function isCounted(result: ValidateRequestResponse): boolean {
+  return result.success && !result.degraded;
+}
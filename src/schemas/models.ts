@@ -0,0 +1,240 @@
+import {
+  ApiKey,
+  ApiKeyPermission,
+  ApiKeyRequest,
+  ApiKeyRequestsResponse,
+  ApiKeyRotation,
+  ApiKeySecretUsage,
+  ApiKeyUsage,
+  ApiResponse,
+  LimitInfo,
+  MatchedPlanRule,
+  PaginatedResponse,
+  Plan,
+  PlanKeysResponse,
+  PlanRule,
+  PlanUsage,
+  PlanUsersResponse,
+  PlanWindow,
+  Schema,
+  User,
+  UserUsage,
+  ValidateRequestResponse,
+  ValidationReason,
+  WindowUsage,
+} from '../types';
+import { ObjectSchema, schema } from './schema';
+
+/**
+ * Schemas of the Limitly API responses, mirroring `src/types`
+ * Used by the modules when `responseValidation` is enabled
+ */
+
+const { string, number, boolean, literal, array, object, optional, nullable } = schema;
+
+const requestPeriod = literal('second', 'minute', 'hour', 'day', 'week', 'month', 'year');
+
+export function apiResponseSchema<T>(data: Schema<T>): ObjectSchema<ApiResponse<T>> {
+  return object<ApiResponse<T>>({
+    success: boolean(),
+    data: optional(data),
+    error: optional(string()),
+    message: optional(string()),
+  });
+}
+
+export function paginatedResponseSchema<T>(item: Schema<T>): ObjectSchema<PaginatedResponse<T>> {
+  return object<PaginatedResponse<T>>({
+    ...apiResponseSchema(array(item)).shape,
+    count: optional(number()),
+    next_cursor: optional(nullable(string())),
+    has_more: optional(boolean()),
+  });
+}
+
+export const messageResponseSchema = apiResponseSchema(object<{ message: string }>({ message: string() }));
+
+// Plans
+export const planWindowSchema = object<PlanWindow>({
+  max_requests: number(),
+  request_period: requestPeriod,
+  burst: optional(number()),
+});
+
+export const planRuleSchema = object<PlanRule>({
+  id: optional(string()),
+  endpoint: string(),
+  method: optional(string()),
+  max_requests: number(),
+  request_period: requestPeriod,
+});
+
+export const planSchema = object<Plan>({
+  id: string(),
+  owner_id: string(),
+  name: string(),
+  description: optional(string()),
+  max_requests: number(),
+  request_period: requestPeriod,
+  burst: optional(number()),
+  windows: optional(array(planWindowSchema)),
+  is_active: boolean(),
+  created_at: string(),
+  updated_at: string(),
+  rules: optional(array(planRuleSchema)),
+});
+
+export const planUsageSchema = object<PlanUsage>({
+  plan_id: string(),
+  plan_name: string(),
+  max_requests: number(),
+  request_period: string(),
+  total_requests: number(),
+  percentage_used: number(),
+  users_count: number(),
+  api_keys_count: number(),
+  is_unlimited: boolean(),
+});
+
+// Users
+export const userSchema = object<User>({
+  user_id: number(),
+  name: string(),
+  email: optional(string()),
+  is_disabled: boolean(),
+  created_at: string(),
+  updated_at: string(),
+  custom_start: optional(string()),
+  plan: optional(planSchema),
+});
+
+export const userUsageSchema = object<UserUsage>({
+  type: literal('user'),
+  current_usage: optional(number()),
+  calls_in_period: optional(number()),
+  limit: optional(number()),
+  percentage_used: optional(number()),
+  user_name: string(),
+  plan_name: optional(string()),
+  period_start: optional(string()),
+  period_end: optional(string()),
+  is_unlimited: optional(boolean()),
+});
+
+// API keys
+export const apiKeySchema = object<ApiKey>({
+  id: string(),
+  name: string(),
+  api_key: optional(string()),
+  status: literal('active', 'inactive'),
+  created_at: string(),
+  last_used_at: optional(string()),
+  expires_at: optional(nullable(string())),
+  user_id: optional(number()),
+  plan_id: optional(string()),
+  user: optional(userSchema),
+  plan: optional(planSchema),
+  scopes: optional(array(string())),
+  permissions: optional(array(object<ApiKeyPermission>({
+    endpoint: string(),
+    methods: optional(array(string())),
+  }))),
+  rotation: optional(nullable(object<ApiKeyRotation>({
+    started_at: string(),
+    grace_period_ends_at: string(),
+    previous_key_prefix: optional(string()),
+  }))),
+});
+
+export const limitInfoSchema = object<LimitInfo>({
+  can_create: boolean(),
+  current_count: number(),
+  max_allowed: number(),
+  remaining_keys: number(),
+  plan_type: string(),
+});
+
+const secretUsageSchema = object<ApiKeySecretUsage>({
+  keyPrefix: string(),
+  totalRequests: number(),
+  requestsInPeriod: number(),
+  lastUsedAt: optional(string()),
+});
+
+export const apiKeyUsageSchema = object<ApiKeyUsage>({
+  apiKeyId: string(),
+  apiKeyName: string(),
+  created_at: string(),
+  periodStart: string(),
+  periodEnd: string(),
+  totalRequests: number(),
+  requestsInPeriod: number(),
+  callsInPeriod: optional(number()),
+  percentageUsed: number(),
+  limit: number(),
+  planName: string(),
+  isUnlimited: boolean(),
+  rotation: optional(object<NonNullable<ApiKeyUsage['rotation']>>({
+    gracePeriodEndsAt: string(),
+    previous: secretUsageSchema,
+    current: secretUsageSchema,
+  })),
+});
+
+export const apiKeyRequestsSchema = object<ApiKeyRequestsResponse>({
+  apiKeyId: string(),
+  apiKeyName: string(),
+  created_at: string(),
+  periodStart: string(),
+  periodEnd: string(),
+  totalRequests: number(),
+  requestsInPeriod: number(),
+  requestsInPeriodDetails: array(object<ApiKeyRequest>({
+    api_key_id: string(),
+    created_at: string(),
+    endpoint: string(),
+    method: string(),
+    status_code: number(),
+    response_time_ms: number(),
+    cost: optional(number()),
+  })),
+});
+
+export const planUsersSchema = object<PlanUsersResponse>({
+  plan: planSchema,
+  users: array(userSchema),
+});
+
+export const planKeysSchema = object<PlanKeysResponse>({
+  plan: planSchema,
+  api_keys: array(apiKeySchema),
+});
+
+// Validation
+const usageWindow = {
+  current_usage: number(),
+  remaining: number(),
+  period_start: string(),
+  period_end: string(),
+};
+
+export const validateResponseSchema = object<ValidateRequestResponse>({
+  success: boolean(),
+  message: optional(string()),
+  error: optional(string()),
+  // Open set, reasons added by the API are handled as rate limit denials by `getDenialReason`
+  reason: optional(string() as Schema<ValidationReason>),
+  degraded: optional(boolean()),
+  cached: optional(boolean()),
+  reservation_id: optional(string()),
+  details: optional(object<NonNullable<ValidateRequestResponse['details']>>({
+    current_usage: number(),
+    limit: number(),
+    plan_name: string(),
+    period_start: string(),
+    period_end: string(),
+    request_period: optional(requestPeriod),
+    windows: optional(array(object<WindowUsage>({ ...planWindowSchema.shape, ...usageWindow }))),
+    matched_rule: optional(nullable(object<MatchedPlanRule>({ ...planRuleSchema.shape, ...usageWindow }))),
+  })),
+});
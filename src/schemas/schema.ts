@@ -0,0 +1,148 @@
+import { Schema, SchemaIssue } from '../types';
+
+type Literal = string | number | boolean;
+
+// One schema per property, optional and nullable properties must be declared as such
+export type SchemaShape<T> = { [K in keyof T]-?: Schema<T[K]> };
+
+export interface ObjectSchema<T> extends Schema<T> {
+  readonly shape: SchemaShape<T>;
+}
+
+/**
+ * Builders for runtime schemas
+ * Schemas are typed against the interface they describe, so a property
+ * added to or changed in `src/types` fails to compile until its schema follows
+ * Unknown properties are accepted, so new API fields never break older SDKs
+ *
+ * @example
+ * ```typescript
+ * const windowSchema = schema.object<PlanWindow>({
+ *   max_requests: schema.number(),
+ *   request_period: schema.literal('second', 'minute', 'hour', 'day', 'week', 'month', 'year'),
+ *   burst: schema.optional(schema.number()),
+ * });
+ * ```
+ */
+export const schema = {
+  string(): Schema<string> {
+    return primitive('string');
+  },
+
+  number(): Schema<number> {
+    return primitive('number');
+  },
+
+  boolean(): Schema<boolean> {
+    return primitive('boolean');
+  },
+
+  /**
+   * Any value, for free-form payloads
+   */
+  unknown<T = any>(): Schema<T> {
+    return { expected: 'unknown', check: () => undefined };
+  },
+
+  /**
+   * One of the given values
+   */
+  literal<const V extends readonly Literal[]>(...values: V): Schema<V[number]> {
+    const expected = values.map((value) => JSON.stringify(value)).join(' | ');
+
+    return {
+      expected,
+      check(value, path, issues) {
+        if (!values.includes(value as Literal)) {
+          // Unexpected enum values are shown, other values never are as they may hold secrets
+          const received = typeof value === 'string' ? JSON.stringify(value) : describe(value);
+          issues.push({ path, expected, received });
+        }
+      },
+    };
+  },
+
+  array<T>(item: Schema<T>): Schema<T[]> {
+    const expected = `${item.expected}[]`;
+
+    return {
+      expected,
+      check(value, path, issues) {
+        if (!Array.isArray(value)) {
+          issues.push({ path, expected, received: describe(value) });
+          return;
+        }
+        value.forEach((entry, index) => item.check(entry, `${path}[${index}]`, issues));
+      },
+    };
+  },
+
+  /**
+   * Object with the given properties, spread another schema's `shape` to extend it
+   */
+  object<T>(shape: SchemaShape<T>): ObjectSchema<T> {
+    return {
+      expected: 'object',
+      shape,
+      check(value, path, issues) {
+        if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+          issues.push({ path, expected: 'object', received: describe(value) });
+          return;
+        }
+
+        for (const [key, property] of Object.entries(shape as Record<string, Schema<unknown>>)) {
+          property.check((value as Record<string, unknown>)[key], path ? `${path}.${key}` : key, issues);
+        }
+      },
+    };
+  },
+
+  // Also accepts undefined, for optional properties
+  optional<T>(inner: Schema<T>): Schema<T | undefined> {
+    return {
+      expected: `${inner.expected} | undefined`,
+      check: (value, path, issues) => value === undefined || inner.check(value, path, issues),
+    };
+  },
+
+  nullable<T>(inner: Schema<T>): Schema<T | null> {
+    return {
+      expected: `${inner.expected} | null`,
+      check: (value, path, issues) => value === null || inner.check(value, path, issues),
+    };
+  },
+};
+
+/**
+ * Checks a value against a schema
+ * @param target - Schema describing the expected type
+ * @param value - Value to check
+ * @param path - Name of the value in issue paths
+ * @returns Every mismatch found, empty when the value matches
+ */
+export function checkSchema<T>(target: Schema<T>, value: unknown, path = ''): SchemaIssue[] {
+  const issues: SchemaIssue[] = [];
+  target.check(value, path, issues);
+  return issues;
+}
+
+function primitive<T>(type: 'string' | 'number' | 'boolean'): Schema<T> {
+  return {
+    expected: type,
+    check(value, path, issues) {
+      if (typeof value !== type || (type === 'number' && Number.isNaN(value))) {
+        issues.push({ path, expected: type, received: describe(value) });
+      }
+    },
+  };
+}
+
+function describe(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  return typeof value;
+}
@@ -0,0 +1,152 @@
+import {
+  IncrementResult,
+  StorageAdapter,
+  TokenBucketParams,
+  TokenBucketResult,
+} from '../types';
+
+interface Entry {
+  value: unknown;
+  expiresAt?: number;
+}
+
+interface BucketEntry {
+  tokens: number;
+  updatedAt: number;
+}
+
+export interface MemoryStorageOptions {
+  // Minimum time between sweeps of expired entries, in milliseconds (default: 60000)
+  sweepInterval?: number;
+  // Entries kept before expired ones are swept early, then the least recently written are evicted (default: 100000)
+  maxEntries?: number;
+}
+
+/**
+ * In-process storage adapter
+ * Default storage for the decision cache and local limiter, and an
+ * in-memory stand-in for shared adapters in tests
+ * Expired entries are swept on writes, as window keys are never read again
+ * once their window has passed
+ */
+export class MemoryStorageAdapter implements StorageAdapter {
+  private readonly entries = new Map<string, Entry>();
+  private readonly sweepInterval: number;
+  private readonly maxEntries: number;
+  private nextSweepAt: number;
+
+  constructor(
+    private readonly now: () => number = Date.now,
+    options: MemoryStorageOptions = {}
+  ) {
+    this.sweepInterval = options.sweepInterval ?? 60000;
+    this.maxEntries = options.maxEntries ?? 100000;
+    this.nextSweepAt = this.now() + this.sweepInterval;
+  }
+
+  // Number of stored entries, including expired ones not swept yet
+  get size(): number {
+    return this.entries.size;
+  }
+
+  async get<T = unknown>(key: string): Promise<T | undefined> {
+    return this.read(key)?.value as T | undefined;
+  }
+
+  async set<T = unknown>(key: string, value: T, ttlMs?: number): Promise<void> {
+    this.write(key, {
+      value,
+      ...(ttlMs !== undefined && { expiresAt: this.now() + ttlMs }),
+    });
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async incrementWithin(
+    key: string,
+    amount: number,
+    limit: number,
+    ttlMs: number
+  ): Promise<IncrementResult> {
+    const entry = this.read(key);
+    const current = (entry?.value as number | undefined) ?? 0;
+
+    if (current + amount > limit) {
+      return { allowed: false, value: current };
+    }
+
+    this.write(key, {
+      value: current + amount,
+      expiresAt: entry?.expiresAt ?? this.now() + ttlMs,
+    });
+
+    return { allowed: true, value: current + amount };
+  }
+
+  async takeTokens(key: string, params: TokenBucketParams): Promise<TokenBucketResult> {
+    const { capacity, refillPeriod, cost, now } = params;
+    const state = this.read(key)?.value as BucketEntry | undefined;
+
+    // Multiplying before dividing keeps whole-token refills exact
+    let tokens = state
+      ? Math.min(capacity, state.tokens + ((now - state.updatedAt) * capacity) / refillPeriod)
+      : capacity;
+
+    const allowed = tokens >= cost;
+    if (allowed) {
+      tokens -= cost;
+    }
+
+    this.write(key, {
+      value: { tokens, updatedAt: now },
+      expiresAt: this.now() + refillPeriod,
+    });
+
+    return { allowed, tokens };
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+
+  private read(key: string): Entry | undefined {
+    const entry = this.entries.get(key);
+
+    if (entry?.expiresAt !== undefined && entry.expiresAt <= this.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    return entry;
+  }
+
+  private write(key: string, entry: Entry): void {
+    // Re-inserting keeps the map ordered from least to most recently written
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    const now = this.now();
+    if (now >= this.nextSweepAt || this.entries.size > this.maxEntries) {
+      this.sweep(now);
+    }
+  }
+
+  private sweep(now: number): void {
+    this.nextSweepAt = now + this.sweepInterval;
+
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt !== undefined && entry.expiresAt <= now) {
+        this.entries.delete(key);
+      }
+    }
+
+    for (const key of this.entries.keys()) {
+      if (this.entries.size <= this.maxEntries) {
+        break;
+      }
+      this.entries.delete(key);
+    }
+  }
+}
@@ -0,0 +1,145 @@
+import {
+  IncrementResult,
+  StorageAdapter,
+  TokenBucketParams,
+  TokenBucketResult,
+} from '../types';
+
+/**
+ * Minimal Redis client contract: runs a Lua script with keys and arguments
+ * Matches `@upstash/redis`; other clients can be adapted in one line
+ *
+ * @example
+ * ```typescript
+ * // ioredis
+ * const client = { eval: (script, keys, args) => redis.eval(script, keys.length, ...keys, ...args) };
+ *
+ * // node-redis v4
+ * const client = { eval: (script, keys, args) => redis.eval(script, { keys, arguments: args }) };
+ * ```
+ */
+export interface RedisClientLike {
+  eval(script: string, keys: string[], args: string[]): Promise<unknown>;
+}
+
+export interface RedisStorageOptions {
+  // Prepended to every key (default: 'limitly:')
+  prefix?: string;
+}
+
+const GET_SCRIPT = `return redis.call('GET', KEYS[1])`;
+
+const SET_SCRIPT = `
+if ARGV[2] == '' then
+  redis.call('SET', KEYS[1], ARGV[1])
+else
+  redis.call('SET', KEYS[1], ARGV[1], 'PX', ARGV[2])
+end
+return 1`;
+
+const DELETE_SCRIPT = `return redis.call('DEL', KEYS[1])`;
+
+const INCREMENT_WITHIN_SCRIPT = `
+local current = tonumber(redis.call('GET', KEYS[1]) or '0')
+local amount = tonumber(ARGV[1])
+if current + amount > tonumber(ARGV[2]) then
+  return {0, tostring(current)}
+end
+local value = redis.call('INCRBYFLOAT', KEYS[1], amount)
+if redis.call('PTTL', KEYS[1]) < 0 then
+  redis.call('PEXPIRE', KEYS[1], ARGV[3])
+end
+return {1, tostring(value)}`;
+
+// Refills with the Redis server clock, instances with drifting clocks share one bucket consistently
+// Redis 5+ replicates script effects, so TIME may be read before writing
+const TAKE_TOKENS_SCRIPT = `
+local capacity = tonumber(ARGV[1])
+local period = tonumber(ARGV[2])
+local cost = tonumber(ARGV[3])
+local time = redis.call('TIME')
+local now = math.floor((tonumber(time[1]) + tonumber(time[2]) / 1000000) * 1000)
+local state = redis.call('HMGET', KEYS[1], 'tokens', 'updated_at')
+local tokens = capacity
+local updated = now
+if tonumber(state[1]) then
+  -- Never refills negatively or moves updated_at backwards if the server clock is adjusted
+  updated = math.max(now, tonumber(state[2]))
+  tokens = math.min(capacity, tonumber(state[1]) + ((updated - tonumber(state[2])) * capacity) / period)
+end
+local allowed = 0
+if tokens >= cost then
+  tokens = tokens - cost
+  allowed = 1
+end
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'updated_at', tostring(updated))
+redis.call('PEXPIRE', KEYS[1], ARGV[2])
+return {allowed, tostring(tokens)}`;
+
+/**
+ * Redis storage adapter for sharing counters and cached decisions
+ * across serverless instances
+ * Every operation runs as a single Lua script, so counters are updated atomically
+ */
+export class RedisStorageAdapter implements StorageAdapter {
+  private readonly prefix: string;
+
+  constructor(
+    private readonly client: RedisClientLike,
+    options: RedisStorageOptions = {}
+  ) {
+    this.prefix = options.prefix ?? 'limitly:';
+  }
+
+  async get<T = unknown>(key: string): Promise<T | undefined> {
+    const value = await this.client.eval(GET_SCRIPT, [this.prefix + key], []);
+
+    // Missing keys come back as nil, or as Lua false from clients that skip the conversion
+    if (value === null || value === undefined || value === false) {
+      return undefined;
+    }
+
+    // Some clients deserialize JSON values automatically
+    return (typeof value === 'string' ? JSON.parse(value) : value) as T;
+  }
+
+  async set<T = unknown>(key: string, value: T, ttlMs?: number): Promise<void> {
+    await this.client.eval(SET_SCRIPT, [this.prefix + key], [
+      JSON.stringify(value),
+      ttlMs === undefined ? '' : String(Math.max(1, Math.ceil(ttlMs))),
+    ]);
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.eval(DELETE_SCRIPT, [this.prefix + key], []);
+  }
+
+  async incrementWithin(
+    key: string,
+    amount: number,
+    limit: number,
+    ttlMs: number
+  ): Promise<IncrementResult> {
+    const [allowed, value] = await this.client.eval(
+      INCREMENT_WITHIN_SCRIPT,
+      [this.prefix + key],
+      [String(amount), String(limit), String(Math.max(1, Math.ceil(ttlMs)))]
+    ) as [number, string];
+
+    return { allowed: Number(allowed) === 1, value: Number(value) };
+  }
+
+  async takeTokens(key: string, params: TokenBucketParams): Promise<TokenBucketResult> {
+    const [allowed, tokens] = await this.client.eval(
+      TAKE_TOKENS_SCRIPT,
+      [this.prefix + key],
+      [
+        String(params.capacity),
+        String(Math.max(1, Math.ceil(params.refillPeriod))),
+        String(params.cost),
+      ]
+    ) as [number, string];
+
+    return { allowed: Number(allowed) === 1, tokens: Number(tokens) };
+  }
+}
@@ -0,0 +1,60 @@
+import type { AxiosInstance } from 'axios';
+import { Transport, TransportError, TransportRequest, TransportResponse } from '../types';
+
+/**
+ * Creates a transport backed by axios
+ * axios is not bundled with the default client; pass your own instance to opt in
+ * @param axios - The axios default export or a custom axios instance
+ * @returns Transport function
+ *
+ * @example
+ * ```typescript
+ * import axios from 'axios';
+ * import { Limitly, createAxiosTransport } from '@limitly/limitly-nextjs';
+ *
+ * const limitly = new Limitly({
+ *   apiKey: process.env.LIMITLY_API_KEY!,
+ *   transport: createAxiosTransport(axios)
+ * });
+ * ```
+ */
+export function createAxiosTransport(axios: AxiosInstance): Transport {
+  return async (request: TransportRequest): Promise<TransportResponse> => {
+    try {
+      const response = await axios(request.url, {
+        method: request.method,
+        headers: request.headers,
+        data: request.body,
+        timeout: request.timeout,
+        validateStatus: () => true,
+      });
+
+      return toTransportResponse(response);
+    } catch (error: any) {
+      if (error.response) {
+        // Custom instances may still reject on HTTP errors
+        return toTransportResponse(error.response);
+      }
+      if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+        throw new TransportError(`timeout of ${request.timeout}ms exceeded`, 'timeout');
+      }
+      throw new TransportError(error.message || 'Request failed', 'network');
+    }
+  };
+}
+
+function toTransportResponse(response: any): TransportResponse {
+  const headers: Record<string, string> = {};
+  for (const [key, value] of Object.entries(response.headers || {})) {
+    if (value !== undefined && value !== null) {
+      headers[key.toLowerCase()] = String(value);
+    }
+  }
+
+  return {
+    status: response.status,
+    statusText: response.statusText,
+    headers,
+    data: response.data,
+  };
+}
@@ -0,0 +1,66 @@
+import { Transport, TransportError, TransportRequest, TransportResponse } from '../types';
+
+/**
+ * Creates a transport backed by the Fetch API
+ * Works on the Node.js, Edge and worker runtimes and goes through
+ * Next.js's patched `fetch` when running inside a Next.js application
+ * @param fetchImpl - Custom fetch implementation (defaults to the global fetch)
+ * @returns Transport function
+ */
+export function createFetchTransport(fetchImpl?: typeof fetch): Transport {
+  return async (request: TransportRequest): Promise<TransportResponse> => {
+    // Resolved per request so that runtime patches of the global fetch apply
+    const doFetch = fetchImpl || globalThis.fetch;
+    const controller = new AbortController();
+    let timedOut = false;
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, request.timeout);
+
+    try {
+      const init: RequestInit & { next?: TransportRequest['next'] } = {
+        method: request.method,
+        headers: request.headers,
+        signal: controller.signal,
+        ...(request.body !== undefined && { body: JSON.stringify(request.body) }),
+        ...(request.cache && { cache: request.cache }),
+        ...(request.next && { next: request.next }),
+      };
+
+      const response = await doFetch(request.url, init);
+
+      const headers: Record<string, string> = {};
+      response.headers.forEach((value, key) => {
+        headers[key] = value;
+      });
+
+      return {
+        status: response.status,
+        statusText: response.statusText,
+        headers,
+        data: parseBody(await response.text()),
+      };
+    } catch (error: any) {
+      if (timedOut) {
+        throw new TransportError(`timeout of ${request.timeout}ms exceeded`, 'timeout');
+      }
+      throw new TransportError(error?.message || 'Request failed', 'network');
+    } finally {
+      clearTimeout(timer);
+    }
+  };
+}
+
+function parseBody(text: string): any {
+  if (!text) {
+    return text;
+  }
+
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
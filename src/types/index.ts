@@ -1,3 +1,5 @@
+import type { NextRequest } from 'next/server';
+
 // Base types
 export interface ApiResponse<T = any> {
   success: boolean;
@@ -8,6 +10,28 @@ export interface ApiResponse<T = any> {
 
 export interface PaginatedResponse<T> extends ApiResponse<T[]> {
   count?: number;
+  // Cursor for the next page, null on the last page
+  next_cursor?: string | null;
+  has_more?: boolean;
+}
+
+// Pagination parameters, use either limit/offset or cursor
+export interface PaginationParams {
+  limit?: number;
+  offset?: number;
+  cursor?: string;
+}
+
+// Query string values, arrays are sent as repeated parameters and dates as ISO strings
+export type QueryValue = string | number | boolean | Date;
+export type QueryParams = Record<string, QueryValue | QueryValue[] | undefined>;
+
+// Sorting for list endpoints
+export type SortOrder = 'asc' | 'desc';
+
+export interface SortParams<TField extends string> {
+  sort?: TField;
+  order?: SortOrder;
 }
 
 // API Keys types
@@ -18,10 +42,53 @@ export interface ApiKey {
   status: 'active' | 'inactive';
   created_at: string;
   last_used_at?: string;
+  // The key stops validating after this date, never expires when null
+  expires_at?: string | null;
   user_id?: number;
   plan_id?: string;
   user?: User;
   plan?: Plan;
+  // Named scopes granted to the key, unrestricted when empty
+  scopes?: string[];
+  // Endpoints the key may call, unrestricted when empty
+  permissions?: ApiKeyPermission[];
+  // Present while a rotation is in progress
+  rotation?: ApiKeyRotation | null;
+}
+
+// Allows an endpoint pattern (e.g. `/api/users/:id`, `/api/reports/*`), optionally for some methods only
+export interface ApiKeyPermission {
+  endpoint: string;
+  // Allowed HTTP methods, all methods when omitted
+  methods?: string[];
+}
+
+// Key rotation state: the previous secret stays valid until grace_period_ends_at
+export interface ApiKeyRotation {
+  started_at: string;
+  grace_period_ends_at: string;
+  // Masked prefix of the previous secret
+  previous_key_prefix?: string;
+}
+
+export interface RotateApiKeyRequest {
+  // How long the previous secret stays valid, in seconds
+  graceSeconds?: number;
+}
+
+// Filters and sorting for API key listings
+export interface ApiKeyListParams extends SortParams<'name' | 'status' | 'created_at' | 'last_used_at' | 'expires_at'> {
+  status?: ApiKey['status'] | ApiKey['status'][];
+  plan_id?: string;
+  user_id?: number;
+  // Case-insensitive search on the key name
+  search?: string;
+  // Inclusive range on last_used_at
+  last_used_from?: string | Date;
+  last_used_to?: string | Date;
+  // Inclusive range on expires_at, keys without expiration are excluded
+  expires_from?: string | Date;
+  expires_to?: string | Date;
 }
 
 export interface CreateApiKeyRequest {
@@ -29,6 +96,9 @@ export interface CreateApiKeyRequest {
   user_id?: number;
   plan_id?: string;
   status?: 'active' | 'inactive';
+  scopes?: string[];
+  permissions?: ApiKeyPermission[];
+  expires_at?: string | Date;
 }
 
 export interface UpdateApiKeyRequest {
@@ -36,6 +106,10 @@ export interface UpdateApiKeyRequest {
   user_id?: number;
   plan_id?: string;
   status?: 'active' | 'inactive';
+  // null removes the restriction
+  scopes?: string[] | null;
+  permissions?: ApiKeyPermission[] | null;
+  expires_at?: string | Date | null;
 }
 
 export interface ApiKeyUsage {
@@ -44,12 +118,28 @@ export interface ApiKeyUsage {
   created_at: string;
   periodStart: string;
   periodEnd: string;
+  // Request counts are weighted by request cost
   totalRequests: number;
   requestsInPeriod: number;
+  // Validated calls in the period regardless of cost
+  callsInPeriod?: number;
   percentageUsed: number;
   limit: number;
   planName: string;
   isUnlimited: boolean;
+  // Usage of each secret while a rotation is in progress
+  rotation?: {
+    gracePeriodEndsAt: string;
+    previous: ApiKeySecretUsage;
+    current: ApiKeySecretUsage;
+  };
+}
+
+export interface ApiKeySecretUsage {
+  keyPrefix: string;
+  totalRequests: number;
+  requestsInPeriod: number;
+  lastUsedAt?: string;
 }
 
 export interface ApiKeyRequest {
@@ -59,6 +149,8 @@ export interface ApiKeyRequest {
   method: string;
   status_code: number;
   response_time_ms: number;
+  // Units of quota consumed by the request
+  cost?: number;
 }
 
 export interface ApiKeyRequestsResponse {
@@ -81,32 +173,96 @@ export interface LimitInfo {
 }
 
 // Plans types
+export type RequestPeriod = 'second' | 'minute' | 'hour' | 'day' | 'week' | 'month' | 'year';
+
 export interface Plan {
   id: string;
   owner_id: string;
   name: string;
   description?: string;
   max_requests: number;
-  request_period: 'day' | 'week' | 'month' | 'year';
+  request_period: RequestPeriod;
+  /**
+   * Requests accepted at once on the main window
+   * The window then refills at max_requests per request_period
+   */
+  burst?: number;
+  // Additional windows enforced together with max_requests, e.g. 10/second plus 1000/hour
+  windows?: PlanWindow[];
   is_active: boolean;
   created_at: string;
   updated_at: string;
+  // Endpoint-specific limits applied on top of max_requests
+  rules?: PlanRule[];
+}
+
+// Rate limit window stacked on a plan, a request must fit in every window
+export interface PlanWindow {
+  max_requests: number;
+  request_period: RequestPeriod;
+  // Requests accepted at once, the window refills at max_requests per request_period
+  burst?: number;
+}
+
+// Usage of one plan window for a validated request
+export interface WindowUsage extends PlanWindow {
+  current_usage: number;
+  remaining: number;
+  period_start: string;
+  period_end: string;
+}
+
+/**
+ * Endpoint-specific limit within a plan, e.g. a tighter limit for exports
+ * The first rule matching the endpoint and method applies, together with the plan's global limit
+ */
+export interface PlanRule {
+  // Assigned by Limitly
+  id?: string;
+  // Endpoint pattern in Next.js matcher syntax, e.g. `/api/export/:path*`
+  endpoint: string;
+  // HTTP method, all methods when omitted
+  method?: string;
+  max_requests: number;
+  request_period: RequestPeriod;
+}
+
+// Rule that applied to a validated request, with its own usage
+export interface MatchedPlanRule extends PlanRule {
+  current_usage: number;
+  remaining: number;
+  period_start: string;
+  period_end: string;
+}
+
+// Filters and sorting for plan listings
+export interface PlanListParams extends SortParams<'name' | 'max_requests' | 'created_at' | 'updated_at'> {
+  is_active?: boolean;
 }
 
 export interface CreatePlanRequest {
   name: string;
   description?: string;
   max_requests: number;
-  request_period: 'day' | 'week' | 'month' | 'year';
+  request_period: RequestPeriod;
+  burst?: number;
+  windows?: PlanWindow[];
   is_active?: boolean;
+  rules?: Omit<PlanRule, 'id'>[];
 }
 
 export interface UpdatePlanRequest {
   name?: string;
   description?: string;
   max_requests?: number;
-  request_period?: 'day' | 'week' | 'month' | 'year';
+  request_period?: RequestPeriod;
+  // null removes the burst allowance
+  burst?: number | null;
+  // Replaces all additional windows, an empty list removes them
+  windows?: PlanWindow[];
   is_active?: boolean;
+  // Replaces all rules, an empty list removes them
+  rules?: Omit<PlanRule, 'id'>[];
 }
 
 export interface PlanUsage {
@@ -143,6 +299,14 @@ export interface User {
   plan?: Plan;
 }
 
+// Filters and sorting for user listings
+export interface UserListParams extends SortParams<'name' | 'email' | 'created_at' | 'updated_at'> {
+  is_disabled?: boolean;
+  plan_id?: string;
+  // Case-insensitive search on the email address
+  email?: string;
+}
+
 export interface CreateUserRequest {
   name: string;
   email?: string;
@@ -160,7 +324,10 @@ export interface UpdateUserRequest {
 
 export interface UserUsage {
   type: 'user';
+  // Weighted by request cost
   current_usage?: number;
+  // Validated calls in the period regardless of cost
+  calls_in_period?: number;
   limit?: number;
   percentage_used?: number;
   user_name: string;
@@ -172,29 +339,214 @@ export interface UserUsage {
 
 // Request validation types
 export interface ValidateRequestRequest {
-  api_key: string;
+  // Required unless an identity is given, e.g. on public endpoints
+  api_key?: string;
+  /**
+   * Who the limits apply to instead of the API key, e.g. `user:42` or `ip:203.0.113.7`
+   * Requests sharing an identity share their quota, whichever key they use
+   */
+  identity?: string;
   endpoint: string;
   method: string;
+  // Units of quota consumed by the request (default: 1), e.g. the item count of a batch call
+  cost?: number;
+  // Reports whether the request would be allowed without counting it
+  dry_run?: boolean;
+  // Counts the request as a reservation that can be refunded until it is committed or expires
+  reserve?: boolean;
 }
 
+/**
+ * Why a request was denied
+ * - `rate_limit_exceeded`: the plan limit was reached (also assumed when absent)
+ * - `scope_forbidden`: the key's scopes or permissions do not allow the endpoint or method
+ * - `key_expired`: the key is past its `expires_at`
+ * - `invalid_key`: the key does not exist
+ * - `key_inactive`: the key was deactivated or revoked
+ * - `user_disabled`: the user owning the key is disabled
+ * - `plan_inactive`: the key's plan is inactive
+ */
+export type ValidationDenialReason =
+  | 'rate_limit_exceeded'
+  | 'scope_forbidden'
+  | 'key_expired'
+  | 'invalid_key'
+  | 'key_inactive'
+  | 'user_disabled'
+  | 'plan_inactive';
+
+// Outcome of a validation, `allowed` for successful requests
+export type ValidationReason = 'allowed' | ValidationDenialReason;
+
 export interface ValidateRequestResponse {
   success: boolean;
   message?: string;
   error?: string;
+  // Outcome of the validation, absent on denials from older API versions (treated as rate limited)
+  reason?: ValidationReason;
+  // Set when the request was allowed because validation was unavailable (fail-open)
+  degraded?: boolean;
+  // Set when the decision was served from the local decision cache
+  cached?: boolean;
+  // Set on allowed requests validated with `reserve`
+  reservation_id?: string;
   details?: {
     current_usage: number;
     limit: number;
     plan_name: string;
     period_start: string;
     period_end: string;
+    /**
+     * Period of the window reported above when the plan has several windows:
+     * the window that denied the request, or the one closest to its limit
+     */
+    request_period?: RequestPeriod;
+    // Usage of every window when the plan has several
+    windows?: WindowUsage[];
+    // Endpoint rule that applied to the request, if any
+    matched_rule?: MatchedPlanRule | null;
   };
 }
 
+/**
+ * Behavior when validation cannot be performed (timeout, network error, Limitly outage)
+ * - `closed`: the error is propagated and the request is rejected (default)
+ * - `open`: the request is allowed and flagged as degraded
+ * - function: return true to fail open for the given error and request
+ */
+export type FailureMode<TRequest = any> =
+  | 'open'
+  | 'closed'
+  | ((error: LimitlyError, request: TRequest) => boolean);
+
+export interface FailureHandlingOptions<TRequest = any> {
+  failureMode?: FailureMode<TRequest>;
+  // Called for every decision made in fail-open mode
+  onDegraded?: (error: LimitlyError, request: TRequest) => void;
+}
+
+export interface ValidationOptions extends FailureHandlingOptions<ValidateRequestRequest> {
+  /**
+   * Caches validation decisions locally to skip round trips on hot endpoints
+   * `true` enables the in-memory cache with default settings
+   */
+  cache?: DecisionCacheOptions | boolean;
+  /**
+   * Where decisions are made
+   * - `remote`: Limitly API (default)
+   * - `local`: in-process limiter, no network calls
+   * - `hybrid`: Limitly API, falling back to the local limiter when unreachable
+   */
+  mode?: 'remote' | 'local' | 'hybrid';
+  // Local limiter configuration, required for `local` and `hybrid` modes
+  local?: LocalLimiterOptions;
+  /**
+   * Shared storage for the decision cache and local limiter
+   * Use a RedisStorageAdapter to stay consistent across instances
+   */
+  storage?: StorageAdapter;
+}
+
+// Storage adapter types
+export interface IncrementResult {
+  // Whether the increment was applied without exceeding the limit
+  allowed: boolean;
+  // Counter value after the operation
+  value: number;
+}
+
+export interface TokenBucketParams {
+  capacity: number;
+  // Time in milliseconds to refill the bucket from empty to full
+  refillPeriod: number;
+  cost: number;
+  // Current time in milliseconds since epoch, shared adapters may use their own clock instead
+  now: number;
+}
+
+export interface TokenBucketResult {
+  allowed: boolean;
+  // Tokens left in the bucket after the operation
+  tokens: number;
+}
+
+/**
+ * Key-value storage with atomic counter operations
+ * Implementations must apply `incrementWithin` and `takeTokens` atomically
+ */
+export interface StorageAdapter {
+  get<T = unknown>(key: string): Promise<T | undefined>;
+  set<T = unknown>(key: string, value: T, ttlMs?: number): Promise<void>;
+  delete(key: string): Promise<void>;
+  // Adds `amount` to a counter unless the result would exceed `limit`, setting the TTL on creation
+  incrementWithin(key: string, amount: number, limit: number, ttlMs: number): Promise<IncrementResult>;
+  // Takes `cost` tokens from a bucket that refills continuously
+  takeTokens(key: string, params: TokenBucketParams): Promise<TokenBucketResult>;
+  // Removes every key, when supported
+  clear?(): Promise<void>;
+}
+
+// Local rate limiter types
+export type LocalLimiterAlgorithm = 'fixed-window' | 'sliding-window' | 'token-bucket';
+
+export type LocalPlan = Pick<Plan, 'max_requests' | 'request_period'>
+  & Partial<Pick<Plan, 'name' | 'burst' | 'windows' | 'rules'>>;
+
+export interface LocalLimiterOptions {
+  // Default: fixed-window
+  algorithm?: LocalLimiterAlgorithm;
+  // Plan applied to every API key without a resolved plan
+  plan?: LocalPlan;
+  // Resolves the plan of an API key, requests without a key use `plan`
+  resolvePlan?: (apiKey: string) => LocalPlan | undefined | Promise<LocalPlan | undefined>;
+  // Clock used for windows, in milliseconds since epoch (default: Date.now)
+  now?: () => number;
+  // Storage for counters (default: in-memory)
+  storage?: StorageAdapter;
+}
+
+// Validation decision cache types
+export interface CachedDecision {
+  result: ValidateRequestResponse;
+  // Requests left before the limit when the decision was recorded, for allowed decisions
+  remaining?: number;
+  // Expiration time in milliseconds since epoch
+  expiresAt: number;
+}
+
+export interface DecisionCacheStore {
+  get(key: string): Promise<CachedDecision | undefined>;
+  set(key: string, decision: CachedDecision): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+export interface DecisionCacheOptions {
+  // Defaults to an in-memory store
+  store?: DecisionCacheStore;
+  // How long allowed decisions are reused, in milliseconds (default: 1000)
+  allowedTtl?: number;
+  // Upper bound for caching blocked decisions, in milliseconds (default: until period_end)
+  maxBlockedTtl?: number;
+  // Shared storage for decisions and headroom counters, used when no `store` is given
+  storage?: StorageAdapter;
+}
+
+export interface ValidateOptions extends RequestOptions {
+  // Overrides the module failure mode for this call
+  failureMode?: FailureMode<ValidateRequestRequest>;
+  // Units of quota consumed by the request (default: 1)
+  cost?: number;
+  // Identity the limits apply to instead of the API key
+  identity?: string;
+}
+
 // Next.js specific types
 export interface NextJsConfig extends LimitlyConfig {
   // Additional Next.js specific configuration
+  // Defaults for GET requests, overridden by per-request options
   cache?: boolean;
   revalidate?: number;
+  tags?: string[];
 }
 
 // Client configuration types
@@ -202,17 +554,246 @@ export interface LimitlyConfig {
   apiKey: string;
   baseUrl?: string;
   timeout?: number;
+  /**
+   * Transport used to send HTTP requests
+   * Defaults to the built-in `fetch` transport
+   */
+  transport?: Transport;
+  /**
+   * Retry policy for transient failures, `false` disables retries
+   */
+  retry?: RetryConfig | false;
+  // Default options for the validation module
+  validation?: ValidationOptions;
+  /**
+   * Checks API responses against the SDK types at runtime (disabled by default)
+   * - `strict`: mismatches throw a `ResponseValidationError`
+   * - `lenient`: mismatches are reported to `onInvalidResponse` (default: console.warn)
+   *   and the response is returned as is
+   */
+  responseValidation?: 'strict' | 'lenient';
+  onInvalidResponse?: (error: ResponseValidationError) => void;
 }
 
+export interface RetryConfig {
+  /** Total attempts including the first one (default: 3) */
+  maxAttempts?: number;
+  /** Base delay in milliseconds for exponential backoff (default: 250) */
+  baseDelay?: number;
+  /** Maximum delay in milliseconds between attempts (default: 10000) */
+  maxDelay?: number;
+  /** Randomizes each delay between 0 and the backoff value (default: true) */
+  jitter?: boolean;
+  /** HTTP status codes treated as transient (default: 408, 429, 500, 502, 503, 504) */
+  retryableStatusCodes?: number[];
+  /** Also retry non-idempotent methods such as POST (default: false) */
+  retryNonIdempotent?: boolean;
+}
+
+// Transport types
+export interface TransportRequest {
+  url: string;
+  method: string;
+  headers: Record<string, string>;
+  body?: any;
+  timeout: number;
+  // Next.js data cache options, honored by the fetch transport
+  cache?: 'force-cache' | 'no-store';
+  next?: {
+    revalidate?: number;
+    tags?: string[];
+  };
+}
+
+export interface TransportResponse<T = any> {
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  data: T;
+}
+
+/**
+ * Sends a request and resolves with the response for any HTTP status
+ * Must reject with a TransportError when no response could be obtained
+ */
+export type Transport = (request: TransportRequest) => Promise<TransportResponse>;
+
 // Error types
+
+/**
+ * Machine-readable error codes, also available as `LimitlyError` subclasses
+ * Codes sent by the API in the response payload take precedence over the HTTP status
+ */
+export type LimitlyErrorCode =
+  | 'rate_limited'
+  | 'invalid_api_key'
+  | 'authentication_failed'
+  | 'not_found'
+  | 'validation_failed'
+  | 'plan_limit_reached'
+  | 'network_error'
+  | 'timeout'
+  | 'server_error'
+  | 'api_error'
+  | 'invalid_response'
+  | 'unknown_error';
+
+export interface LimitlyErrorOptions {
+  code?: LimitlyErrorCode;
+  // Request ID assigned by Limitly, for support requests
+  requestId?: string;
+  // Seconds to wait before retrying, from the Retry-After header
+  retryAfter?: number;
+}
+
 export class LimitlyError extends Error {
+  public readonly code: LimitlyErrorCode;
+  public readonly requestId: string | undefined;
+  public readonly retryAfter: number | undefined;
+
   constructor(
     message: string,
     public statusCode: number,
-    public response?: any
+    public response?: any,
+    options: LimitlyErrorOptions = {}
   ) {
     super(message);
     this.name = 'LimitlyError';
+    this.code = options.code ?? (statusCode === 0 ? 'network_error' : statusCode >= 500 ? 'server_error' : 'api_error');
+    this.requestId = options.requestId;
+    this.retryAfter = options.retryAfter;
+  }
+}
+
+// 429: too many requests to the Limitly API, see `retryAfter`
+export class RateLimitedError extends LimitlyError {
+  declare readonly code: 'rate_limited';
+
+  constructor(message: string, statusCode: number, response?: any, options: LimitlyErrorOptions = {}) {
+    super(message, statusCode, response, { ...options, code: 'rate_limited' });
+    this.name = 'RateLimitedError';
+  }
+}
+
+// 401 or 403: the client API key was rejected or lacks permissions
+export class AuthenticationError extends LimitlyError {
+  declare readonly code: 'authentication_failed' | 'invalid_api_key';
+
+  constructor(message: string, statusCode: number, response?: any, options: LimitlyErrorOptions = {}) {
+    super(message, statusCode, response, {
+      ...options,
+      code: options.code === 'invalid_api_key' ? 'invalid_api_key' : 'authentication_failed',
+    });
+    this.name = 'AuthenticationError';
+  }
+}
+
+// The API key is unknown or revoked
+export class InvalidApiKeyError extends AuthenticationError {
+  declare readonly code: 'invalid_api_key';
+
+  constructor(message: string, statusCode: number, response?: any, options: LimitlyErrorOptions = {}) {
+    super(message, statusCode, response, { ...options, code: 'invalid_api_key' });
+    this.name = 'InvalidApiKeyError';
+  }
+}
+
+// 404: the API key, plan or user does not exist
+export class NotFoundError extends LimitlyError {
+  declare readonly code: 'not_found';
+
+  constructor(message: string, statusCode: number, response?: any, options: LimitlyErrorOptions = {}) {
+    super(message, statusCode, response, { ...options, code: 'not_found' });
+    this.name = 'NotFoundError';
+  }
+}
+
+// 400 or 422: the request payload was rejected
+export class ValidationFailedError extends LimitlyError {
+  declare readonly code: 'validation_failed';
+
+  constructor(message: string, statusCode: number, response?: any, options: LimitlyErrorOptions = {}) {
+    super(message, statusCode, response, { ...options, code: 'validation_failed' });
+    this.name = 'ValidationFailedError';
+  }
+}
+
+// 402: the Limitly account reached a limit of its plan, e.g. the number of API keys
+export class PlanLimitReachedError extends LimitlyError {
+  declare readonly code: 'plan_limit_reached';
+
+  constructor(message: string, statusCode: number, response?: any, options: LimitlyErrorOptions = {}) {
+    super(message, statusCode, response, { ...options, code: 'plan_limit_reached' });
+    this.name = 'PlanLimitReachedError';
+  }
+}
+
+// No response was received, `statusCode` is 0
+export class NetworkError extends LimitlyError {
+  declare readonly code: 'network_error';
+
+  constructor(message: string, response?: any, options: LimitlyErrorOptions = {}) {
+    super(message, 0, response, { ...options, code: 'network_error' });
+    this.name = 'NetworkError';
+  }
+}
+
+// The request timed out, `statusCode` is 0
+export class TimeoutError extends LimitlyError {
+  declare readonly code: 'timeout';
+
+  constructor(message: string, response?: any, options: LimitlyErrorOptions = {}) {
+    super(message, 0, response, { ...options, code: 'timeout' });
+    this.name = 'TimeoutError';
+  }
+}
+
+export class TransportError extends Error {
+  constructor(
+    message: string,
+    public kind: 'network' | 'timeout'
+  ) {
+    super(message);
+    this.name = 'TransportError';
+  }
+}
+
+// Response schema types
+
+// Mismatch between a response value and its expected type
+export interface SchemaIssue {
+  // Location of the value, e.g. `data.plan.max_requests`
+  path: string;
+  expected: string;
+  received: string;
+}
+
+/**
+ * Runtime description of a type, built with the `schema` helpers
+ * The phantom `type` keeps schemas in sync with the interfaces they describe
+ */
+export interface Schema<T> {
+  // Expected type, used in error messages
+  readonly expected: string;
+  // Appends every mismatch found in `value` to `issues`
+  check(value: unknown, path: string, issues: SchemaIssue[]): void;
+  // Never set at runtime
+  readonly type?: (value: T) => T;
+}
+
+// A response did not match its expected type, see `issues`
+export class ResponseValidationError extends LimitlyError {
+  declare readonly code: 'invalid_response';
+
+  constructor(
+    message: string,
+    statusCode: number,
+    response: any,
+    public readonly issues: SchemaIssue[],
+    options: LimitlyErrorOptions = {}
+  ) {
+    super(message, statusCode, response, { ...options, code: 'invalid_response' });
+    this.name = 'ResponseValidationError';
   }
 }
 
@@ -220,20 +801,188 @@ export class LimitlyError extends Error {
 export interface RequestOptions {
   timeout?: number;
   headers?: Record<string, string>;
+  // Next.js data cache options, only applied to GET requests
   cache?: boolean;
   revalidate?: number;
+  tags?: string[];
+  // Overrides the client retry policy for this request
+  retry?: RetryConfig | false;
 }
 
-// Next.js middleware types
-export interface NextJsMiddlewareOptions {
+// Options for list methods: request options plus pagination
+export interface ListOptions extends RequestOptions, PaginationParams {}
+
+export interface ApiKeyListOptions extends ListOptions, ApiKeyListParams {}
+export interface PlanListOptions extends ListOptions, PlanListParams {}
+export interface UserListOptions extends ListOptions, UserListParams {}
+
+// Rate limit response header styles
+export type RateLimitHeaderStyle = 'draft' | 'legacy' | 'both' | 'none';
+
+// Reads the API key from an incoming request
+export type ApiKeyExtractor<TRequest = any> = (
+  request: TRequest
+) => string | null | undefined | Promise<string | null | undefined>;
+
+// Resolves the identity limits apply to, e.g. a user ID or the client IP
+export type IdentityResolver<TRequest = any> = (
+  request: TRequest
+) => string | null | undefined | Promise<string | null | undefined>;
+
+export interface ClientIpOptions {
+  /**
+   * Proxies in front of the app whose forwarding headers are trusted:
+   * the number of proxy hops, or the proxy addresses (default: 1)
+   * Use 0 when the app is reached directly, so forwarding headers are ignored
+   */
+  trustedProxies?: number | string[];
+}
+
+// Maps a normalized request pathname to the endpoint sent to Limitly
+export type EndpointNormalizer<TRequest = any> = (
+  pathname: string,
+  request: TRequest
+) => string | Promise<string>;
+
+// Options shared by createMiddleware, withRateLimit and nextMiddleware
+export interface RateLimitWrapperOptions<TRequest = any> extends FailureHandlingOptions<TRequest> {
   apiKeyHeader?: string;
+  /**
+   * How to read the API key, e.g. `apiKeyFrom.query('api_key')` or a custom function
+   * An array is tried in order until one returns a key
+   * Defaults to `apiKeyHeader` followed by a Bearer authorization header
+   */
+  extractApiKey?: ApiKeyExtractor<TRequest> | ApiKeyExtractor<TRequest>[];
+  // Base path stripped from pathnames before validation, e.g. `/docs`
+  basePath?: string;
+  /**
+   * Route patterns sent as the endpoint instead of concrete paths, e.g. `/api/users/[id]`
+   * Supports `[param]`, `[...param]` and `[[...param]]`, the first matching route wins
+   */
+  routes?: string[];
+  /**
+   * Custom endpoint mapping, called with the pathname after the query string,
+   * base path and trailing slash are stripped
+   */
+  normalizeEndpoint?: EndpointNormalizer<TRequest>;
+  /**
+   * Units of quota consumed by each request (default: 1),
+   * or a function computing it from the request, e.g. from a batch size
+   */
+  cost?: number | ((request: TRequest) => number | Promise<number>);
+  /**
+   * Applies limits per identity instead of per API key, e.g. `identityFrom.user(...)`
+   * or `identityFrom.ip()`
+   */
+  identify?: IdentityResolver<TRequest>;
+  /**
+   * Rejects requests without an API key (default: true)
+   * Set to false with `identify` to limit public endpoints by identity alone
+   */
+  requireApiKey?: boolean;
+  /**
+   * Rate limit headers added to allowed and blocked responses (default: `both`)
+   * `draft` sends `RateLimit-*`, `legacy` sends `X-RateLimit-*`
+   */
+  rateLimitHeaders?: RateLimitHeaderStyle;
+}
+
+// Next.js middleware types
+export interface NextJsMiddlewareOptions extends RateLimitWrapperOptions<any> {
   onRateLimitExceeded?: (req: any, res: any) => void;
   onValidationError?: (req: any, res: any, error: any) => void;
 }
 
-// Server-side rendering types
+// withRateLimit route handler wrapper types
+export interface WithRateLimitOptions extends RateLimitWrapperOptions<Request> {
+  onRateLimitExceeded?: (request: Request) => Response;
+  /**
+   * Validates requests as reservations and refunds their quota when the handler
+   * throws or returns a 5xx response
+   */
+  refundOnFailure?: boolean;
+}
+
+// Next.js Edge middleware types (root `middleware.ts`)
+export interface EdgeMiddlewareOptions extends RateLimitWrapperOptions<NextRequest> {
+  /**
+   * Paths to rate limit, using Next.js matcher syntax (e.g. `/api/:path*`)
+   * Requests outside the matcher are passed through untouched
+   */
+  matcher?: string | RegExp | Array<string | RegExp>;
+  onRateLimitExceeded?: (request: NextRequest) => Response | Promise<Response>;
+  onValidationError?: (request: NextRequest, error: any) => Response | void | Promise<Response | void>;
+}
+
+/**
+ * Server-side rendering types
+ * @deprecated Not read by the SDK, pass `cache`, `revalidate` and `tags` per request
+ * through `RequestOptions`, or set `cache` and `revalidate` defaults in `NextJsConfig`
+ */
 export interface SSRConfig {
   cache?: boolean;
   revalidate?: number;
   tags?: string[];
-} 
\ No newline at end of file
+}
+
+// Normalized model types, see `limitly.normalized`
+export type CamelCase<S extends string> = S extends `${infer Head}_${infer Tail}`
+  ? `${Head}${Capitalize<CamelCase<Tail>>}`
+  : S;
+
+// Properties holding ISO 8601 timestamps, once camelCased
+type TimestampKey = `${string}At` | `${string}Start` | `${string}End`;
+type ToDate<V> = V extends string ? Date : V;
+
+/**
+ * Payload with camelCase properties and timestamps as `Date` objects
+ * e.g. `Normalized<User>` has `userId`, `isDisabled` and `createdAt: Date`
+ */
+export type Normalized<T> = T extends Date
+  ? Date
+  : T extends readonly (infer U)[]
+    ? Normalized<U>[]
+    : T extends object
+      ? {
+          [K in keyof T as CamelCase<K & string>]: CamelCase<K & string> extends TimestampKey
+            ? ToDate<T[K]>
+            : Normalized<T[K]>;
+        }
+      : T;
+
+// List options with camelCase filters, request options are unchanged
+export type NormalizedListOptions<O> = {
+  [K in keyof O as CamelCase<K & string>]: K extends 'sort' ? CamelCase<O[K] & string> : O[K];
+};
+
+/**
+ * How a method argument is converted from its normalized model to the wire format
+ * - `body`: request payload, converted deeply
+ * - `list`: list options, only filter names and the sort field are converted
+ * - `value`: passed through, e.g. IDs and request options
+ */
+export type ArgumentFormat = 'body' | 'list' | 'value';
+
+// Formats of a method's arguments by position, by method name, unlisted arguments are passed through
+export type ArgumentFormats = Record<string, readonly ArgumentFormat[]>;
+
+type NormalizedArg<A, F> = F extends 'body'
+  ? Normalized<A>
+  : F extends 'list'
+    ? A extends undefined ? A : NormalizedListOptions<A>
+    : A;
+
+type NormalizedArgs<A extends unknown[], F> = {
+  [I in keyof A]: F extends readonly ArgumentFormat[]
+    ? NormalizedArg<A[I], I extends keyof F ? F[I] : 'value'>
+    : A[I];
+};
+
+// Module whose methods take and return normalized payloads, with arguments converted as declared in `F`
+export type NormalizedModule<M, F extends ArgumentFormats> = {
+  [K in keyof M]: M[K] extends (...args: infer A) => AsyncGenerator<infer Y, void, undefined>
+    ? (...args: NormalizedArgs<A, K extends keyof F ? F[K] : []>) => AsyncGenerator<Normalized<Y>, void, undefined>
+    : M[K] extends (...args: infer A) => Promise<infer R>
+      ? (...args: NormalizedArgs<A, K extends keyof F ? F[K] : []>) => Promise<Normalized<R>>
+      : M[K];
+};
@@ -0,0 +1,178 @@
+import { ApiKeyExtractor } from '../types';
+
+/**
+ * Built-in API key extraction strategies
+ * Each works with Fetch API requests (including NextRequest) and
+ * Express-style `req` objects
+ *
+ * @example
+ * ```typescript
+ * limitly.withRateLimit(handler, {
+ *   extractApiKey: [apiKeyFrom.header('x-api-key'), apiKeyFrom.query('api_key')]
+ * });
+ * ```
+ */
+export const apiKeyFrom = {
+  /**
+   * Raw header value, used as-is
+   * @param name - Header name, e.g. `x-api-key`
+   */
+  header(name: string): ApiKeyExtractor {
+    return (request) => getHeader(request, name)?.trim() || undefined;
+  },
+
+  /**
+   * Token of a `Bearer` authorization scheme, matched case-insensitively
+   * Values with another scheme or without a token are ignored
+   * @param name - Header name (default: `authorization`)
+   */
+  bearer(name = 'authorization'): ApiKeyExtractor {
+    return (request) => {
+      const match = /^bearer[ \t]+([^\s]+)[ \t]*$/i.exec(getHeader(request, name) || '');
+      return match?.[1];
+    };
+  },
+
+  /**
+   * Query string parameter
+   * @param name - Parameter name (default: `api_key`)
+   */
+  query(name = 'api_key'): ApiKeyExtractor {
+    return (request) => getQueryParam(request, name) || undefined;
+  },
+
+  /**
+   * Cookie value
+   * @param name - Cookie name
+   */
+  cookie(name: string): ApiKeyExtractor {
+    return (request) => getCookie(request, name) || undefined;
+  },
+
+  /**
+   * Password of a `Basic` authorization scheme, the username is ignored
+   * @param name - Header name (default: `authorization`)
+   */
+  basicAuth(name = 'authorization'): ApiKeyExtractor {
+    return (request) => {
+      const match = /^basic[ \t]+([A-Za-z0-9+/=]+)[ \t]*$/i.exec(getHeader(request, name) || '');
+      if (!match?.[1]) {
+        return undefined;
+      }
+
+      try {
+        const credentials = atob(match[1]);
+        const separator = credentials.indexOf(':');
+        return separator >= 0 ? credentials.slice(separator + 1) || undefined : undefined;
+      } catch {
+        return undefined;
+      }
+    };
+  },
+
+  /**
+   * Tries each strategy in order and returns the first key found
+   * @param extractors - Strategies to try
+   */
+  chain(...extractors: ApiKeyExtractor[]): ApiKeyExtractor {
+    return async (request) => {
+      for (const extractor of extractors) {
+        const apiKey = await extractor(request);
+        if (apiKey) {
+          return apiKey;
+        }
+      }
+      return undefined;
+    };
+  },
+};
+
+/**
+ * Resolves the API key extractor used by a wrapper
+ * Without `extractApiKey`, keys are read from `apiKeyHeader` and
+ * then from a Bearer authorization header
+ * @param options - Wrapper options
+ * @returns Extractor function
+ */
+export function resolveApiKeyExtractor(options?: {
+  apiKeyHeader?: string;
+  extractApiKey?: ApiKeyExtractor | ApiKeyExtractor[];
+}): ApiKeyExtractor {
+  const extractApiKey = options?.extractApiKey;
+
+  if (Array.isArray(extractApiKey)) {
+    return apiKeyFrom.chain(...extractApiKey);
+  }
+  if (extractApiKey) {
+    return extractApiKey;
+  }
+
+  const apiKeyHeader = (options?.apiKeyHeader || 'authorization').toLowerCase();
+  return apiKeyHeader === 'authorization'
+    ? apiKeyFrom.bearer()
+    : apiKeyFrom.chain(apiKeyFrom.header(apiKeyHeader), apiKeyFrom.bearer());
+}
+
+/**
+ * Reads a header from a Fetch API request or an Express-style request
+ */
+export function getHeader(request: any, name: string): string | undefined {
+  const headers = request?.headers;
+
+  if (!headers) {
+    return undefined;
+  }
+  if (typeof headers.get === 'function') {
+    return headers.get(name) ?? undefined;
+  }
+
+  const value = headers[name.toLowerCase()] ?? headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function getQueryParam(request: any, name: string): string | undefined {
+  const query = request?.query;
+
+  if (query && typeof query === 'object' && name in query) {
+    const value = query[name];
+    return Array.isArray(value) ? value[0] : value;
+  }
+  if (!request?.url) {
+    return undefined;
+  }
+
+  return new URL(request.url, 'http://localhost').searchParams.get(name) ?? undefined;
+}
+
+/**
+ * Reads a cookie from a NextRequest, an Express-style request or the Cookie header
+ */
+export function getCookie(request: any, name: string): string | undefined {
+  const cookies = request?.cookies;
+
+  if (cookies && typeof cookies.get === 'function') {
+    // NextRequest cookies
+    return cookies.get(name)?.value;
+  }
+  if (cookies && typeof cookies === 'object' && name in cookies) {
+    return cookies[name];
+  }
+
+  for (const part of (getHeader(request, 'cookie') || '').split(';')) {
+    const separator = part.indexOf('=');
+    if (separator > 0 && part.slice(0, separator).trim() === name) {
+      return safeDecode(part.slice(separator + 1).trim());
+    }
+  }
+
+  return undefined;
+}
+
+// Malformed escapes are kept as is, so a bad cookie never fails the request
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
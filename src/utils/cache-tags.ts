@@ -0,0 +1,20 @@
+/**
+ * Next.js data cache tags attached to Limitly API responses
+ * Use them with `revalidateTag` to invalidate cached data manually
+ *
+ * @example
+ * ```typescript
+ * import { revalidateTag } from 'next/cache';
+ * import { CacheTags } from '@limitly/limitly-nextjs';
+ *
+ * revalidateTag(CacheTags.key('key-id'));
+ * ```
+ */
+export const CacheTags = {
+  keys: 'limitly:keys',
+  key: (keyId: string) => `limitly:keys:${keyId}`,
+  plans: 'limitly:plans',
+  plan: (planId: string) => `limitly:plans:${planId}`,
+  users: 'limitly:users',
+  user: (userId: number) => `limitly:users:${userId}`,
+} as const;
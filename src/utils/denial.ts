@@ -0,0 +1,71 @@
+import { ValidateRequestResponse, ValidationDenialReason } from '../types';
+
+// HTTP status used by the wrappers for each denial reason
+const DENIAL_STATUS: Record<ValidationDenialReason, number> = {
+  rate_limit_exceeded: 429,
+  scope_forbidden: 403,
+  key_expired: 401,
+  invalid_key: 401,
+  key_inactive: 403,
+  user_disabled: 403,
+  plan_inactive: 403,
+};
+
+const DENIAL_ERRORS: Record<ValidationDenialReason, string> = {
+  rate_limit_exceeded: 'Rate limit exceeded',
+  scope_forbidden: 'API key not allowed for this endpoint',
+  key_expired: 'API key expired',
+  invalid_key: 'Invalid API key',
+  key_inactive: 'API key inactive',
+  user_disabled: 'User disabled',
+  plan_inactive: 'Plan inactive',
+};
+
+/**
+ * Reason a request was denied, denials without a known reason count as rate limited
+ * @param result - Denied validation result
+ * @returns Denial reason
+ */
+export function getDenialReason(result: ValidateRequestResponse): ValidationDenialReason {
+  return result.reason && result.reason !== 'allowed' && result.reason in DENIAL_STATUS
+    ? result.reason
+    : 'rate_limit_exceeded';
+}
+
+/**
+ * Checks whether a denied request was blocked by the rate limit,
+ * as opposed to being rejected because of its key, user, plan or scopes
+ * @param result - Validation result
+ * @returns True for rate limited requests
+ */
+export function isRateLimited(result: ValidateRequestResponse): boolean {
+  return !result.success && getDenialReason(result) === 'rate_limit_exceeded';
+}
+
+/**
+ * HTTP status used by the wrappers to answer a denied request:
+ * 429 when rate limited, 401 for unknown or expired keys, 403 for inactive
+ * keys, disabled users, inactive plans and scope denials
+ * @param result - Denied validation result
+ * @returns HTTP status code
+ */
+export function getDenialStatus(result: ValidateRequestResponse): number {
+  return DENIAL_STATUS[getDenialReason(result)];
+}
+
+/**
+ * JSON body used by the wrappers to answer a denied request
+ * @param result - Denied validation result
+ * @returns Response body
+ */
+export function getDenialBody(result: ValidateRequestResponse): Record<string, unknown> {
+  if (isRateLimited(result)) {
+    return { error: DENIAL_ERRORS.rate_limit_exceeded, details: result.details };
+  }
+
+  const reason = getDenialReason(result);
+  return {
+    error: result.error || DENIAL_ERRORS[reason],
+    reason,
+  };
+}
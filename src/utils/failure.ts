@@ -0,0 +1,42 @@
+import { FailureMode, LimitlyError, ValidateRequestResponse } from '../types';
+
+/**
+ * Checks whether an error means validation could not be performed
+ * (network error, timeout or Limitly server error), as opposed to
+ * a definitive answer from the API such as an invalid API key
+ */
+export function isValidationOutage(error: unknown): error is LimitlyError {
+  return error instanceof LimitlyError &&
+    (error.statusCode === 0 || error.statusCode >= 500);
+}
+
+/**
+ * Decides whether a failed validation should let the request through
+ * @param mode - Configured failure mode (defaults to `closed`)
+ * @param error - Error thrown by the validation call
+ * @param request - Request being validated, passed to custom policies
+ * @returns True to fail open
+ */
+export function shouldFailOpen<TRequest>(
+  mode: FailureMode<TRequest> | undefined,
+  error: unknown,
+  request: TRequest
+): error is LimitlyError {
+  if (!mode || mode === 'closed' || !isValidationOutage(error)) {
+    return false;
+  }
+
+  return mode === 'open' || mode(error, request);
+}
+
+/**
+ * Builds the result returned for a request allowed in fail-open mode
+ */
+export function degradedResult(error: LimitlyError): ValidateRequestResponse {
+  return {
+    success: true,
+    degraded: true,
+    message: 'Validation unavailable, request allowed',
+    error: error.message,
+  };
+}
@@ -0,0 +1,92 @@
+/**
+ * Hashes a value for use in storage key names, so secrets such as API keys
+ * never appear in a shared store like Redis
+ * @param value - Value to hash
+ * @returns Hex-encoded SHA-256 digest
+ */
+export async function hashKey(value: string): Promise<string> {
+  const bytes = new TextEncoder().encode(value);
+  // `crypto` is global on the Edge runtime and Node.js 19+, Node.js 18 scripts use the fallback
+  const subtle = (globalThis as { crypto?: Partial<Crypto> }).crypto?.subtle;
+  const digest = subtle ? new Uint8Array(await subtle.digest('SHA-256', bytes)) : sha256(bytes);
+
+  return Array.from(digest, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+const ROUND_CONSTANTS = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+// SHA-256 (FIPS 180-4) for runtimes without Web Crypto
+function sha256(message: Uint8Array): Uint8Array {
+  // Message, 0x80 terminator and 64-bit bit length, padded to 64-byte blocks
+  const length = Math.ceil((message.length + 9) / 64) * 64;
+  const padded = new Uint8Array(length);
+  padded.set(message);
+  padded[message.length] = 0x80;
+  const view = new DataView(padded.buffer);
+  view.setUint32(length - 8, Math.floor(message.length / 0x20000000));
+  view.setUint32(length - 4, (message.length * 8) >>> 0);
+
+  const hash = new Uint32Array([
+    0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19,
+  ]);
+  const words = new Uint32Array(64);
+  const state = new Uint32Array(8);
+
+  for (let offset = 0; offset < length; offset += 64) {
+    for (let i = 0; i < 64; i++) {
+      if (i < 16) {
+        words[i] = view.getUint32(offset + i * 4);
+      } else {
+        const w15 = at(words, i - 15);
+        const w2 = at(words, i - 2);
+        const s0 = rotate(w15, 7) ^ rotate(w15, 18) ^ (w15 >>> 3);
+        const s1 = rotate(w2, 17) ^ rotate(w2, 19) ^ (w2 >>> 10);
+        words[i] = at(words, i - 16) + s0 + at(words, i - 7) + s1;
+      }
+    }
+
+    // Working variables a to h, typed array writes wrap modulo 2^32
+    state.set(hash);
+    for (let i = 0; i < 64; i++) {
+      const a = at(state, 0);
+      const e = at(state, 4);
+      const t1 = at(state, 7)
+        + (rotate(e, 6) ^ rotate(e, 11) ^ rotate(e, 25))
+        + ((e & at(state, 5)) ^ (~e & at(state, 6)))
+        + at(ROUND_CONSTANTS, i)
+        + at(words, i);
+      const t2 = (rotate(a, 2) ^ rotate(a, 13) ^ rotate(a, 22))
+        + ((a & at(state, 1)) ^ (a & at(state, 2)) ^ (at(state, 1) & at(state, 2)));
+
+      state.copyWithin(1, 0, 7);
+      state[4] = at(state, 4) + t1;
+      state[0] = t1 + t2;
+    }
+
+    for (let i = 0; i < 8; i++) {
+      hash[i] = at(hash, i) + at(state, i);
+    }
+  }
+
+  const digest = new Uint8Array(32);
+  const digestView = new DataView(digest.buffer);
+  hash.forEach((word, i) => digestView.setUint32(i * 4, word));
+  return digest;
+}
+
+function rotate(word: number, bits: number): number {
+  return (word >>> bits) | (word << (32 - bits));
+}
+
+function at(words: Uint32Array, index: number): number {
+  return words[index] ?? 0;
+}
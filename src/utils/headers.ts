@@ -0,0 +1,88 @@
+import { RateLimitHeaderStyle, ValidateRequestResponse } from '../types';
+import { isRateLimited } from './denial';
+
+/**
+ * Builds rate limit headers from a validation result
+ * - `draft`: `RateLimit-Limit`, `RateLimit-Remaining`, `RateLimit-Reset` (seconds until reset, IETF draft)
+ * - `legacy`: `X-RateLimit-Limit`, `X-RateLimit-Remaining`, `X-RateLimit-Reset` (Unix time in seconds)
+ * - `both`: draft and legacy headers
+ * `Retry-After` is added to rate limited results unless the style is `none`
+ * When an endpoint rule matched, the most restrictive of the rule and the plan limit is reported
+ * @param result - Validation result with usage details
+ * @param style - Header style (default: `both`)
+ * @param now - Current time in milliseconds since epoch
+ * @returns Header names and values, empty when the result has no usage details
+ */
+export function getRateLimitHeaders(
+  result: ValidateRequestResponse,
+  style: RateLimitHeaderStyle = 'both',
+  now: number = Date.now()
+): Record<string, string> {
+  const details = result.details;
+
+  if (style === 'none' || !details) {
+    return {};
+  }
+
+  const rule = details.matched_rule;
+  const planRemaining = details.limit - details.current_usage;
+  const useRule = !!rule && rule.remaining <= planRemaining;
+
+  const headers: Record<string, string> = {};
+  const limit = String(useRule ? rule.max_requests : details.limit);
+  const remaining = String(Math.max(0, useRule ? rule.remaining : planRemaining));
+  const periodEnd = Date.parse(useRule ? rule.period_end : details.period_end);
+  const hasReset = !Number.isNaN(periodEnd);
+  const resetSeconds = Math.max(0, Math.ceil((periodEnd - now) / 1000));
+
+  if (style === 'draft' || style === 'both') {
+    headers['RateLimit-Limit'] = limit;
+    headers['RateLimit-Remaining'] = remaining;
+    if (hasReset) {
+      headers['RateLimit-Reset'] = String(resetSeconds);
+    }
+  }
+
+  if (style === 'legacy' || style === 'both') {
+    headers['X-RateLimit-Limit'] = limit;
+    headers['X-RateLimit-Remaining'] = remaining;
+    if (hasReset) {
+      headers['X-RateLimit-Reset'] = String(Math.ceil(periodEnd / 1000));
+    }
+  }
+
+  if (isRateLimited(result) && hasReset) {
+    headers['Retry-After'] = String(resetSeconds);
+  }
+
+  return headers;
+}
+
+/**
+ * Adds headers to a Response without overriding headers it already has,
+ * copying the response when its headers are immutable
+ * @param response - Response returned by a handler
+ * @param headers - Headers to add
+ * @returns A response carrying the headers
+ */
+export function withHeaders(response: Response, headers: Record<string, string>): Response {
+  const entries = Object.entries(headers).filter(([name]) => !response.headers.has(name));
+
+  if (entries.length === 0) {
+    return response;
+  }
+
+  try {
+    for (const [name, value] of entries) {
+      response.headers.set(name, value);
+    }
+    return response;
+  } catch {
+    // Responses from fetch or Response.redirect have immutable headers
+    const copy = new Response(response.body, response);
+    for (const [name, value] of entries) {
+      copy.headers.set(name, value);
+    }
+    return copy;
+  }
+}
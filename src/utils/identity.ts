@@ -0,0 +1,138 @@
+import { ClientIpOptions, IdentityResolver } from '../types';
+import { getCookie, getHeader } from './api-key';
+
+/**
+ * Built-in identity resolvers, used to apply limits per user, client IP
+ * or session instead of per API key
+ * Identities are prefixed with their kind, e.g. `user:42` or `ip:203.0.113.7`
+ *
+ * @example
+ * ```typescript
+ * limitly.withRateLimit(handler, {
+ *   identify: identityFrom.chain(identityFrom.user(getUserId), identityFrom.ip()),
+ *   requireApiKey: false
+ * });
+ * ```
+ */
+export const identityFrom = {
+  /**
+   * User ID resolved from the request, e.g. from a session or a JWT
+   * @param resolve - Returns the user ID, or undefined for anonymous requests
+   */
+  user<TRequest = any>(
+    resolve: (request: TRequest) => string | number | null | undefined | Promise<string | number | null | undefined>
+  ): IdentityResolver<TRequest> {
+    return async (request) => {
+      const userId = await resolve(request);
+      return userId === null || userId === undefined || userId === '' ? undefined : `user:${userId}`;
+    };
+  },
+
+  /**
+   * Client IP address, read from `x-forwarded-for` or `x-real-ip` when set by a trusted proxy
+   * @param options - Trusted proxy configuration
+   */
+  ip(options?: ClientIpOptions): IdentityResolver {
+    return (request) => {
+      const address = getClientIp(request, options);
+      return address && `ip:${address}`;
+    };
+  },
+
+  /**
+   * Session cookie value
+   * @param name - Cookie name
+   */
+  session(name: string): IdentityResolver {
+    return (request) => {
+      const sessionId = getCookie(request, name);
+      return sessionId ? `session:${sessionId}` : undefined;
+    };
+  },
+
+  /**
+   * Tries each resolver in order and returns the first identity found,
+   * e.g. the user ID for signed-in requests and the client IP otherwise
+   * @param resolvers - Resolvers to try
+   */
+  chain<TRequest = any>(...resolvers: IdentityResolver<TRequest>[]): IdentityResolver<TRequest> {
+    return async (request) => {
+      for (const resolver of resolvers) {
+        const identity = await resolver(request);
+        if (identity) {
+          return identity;
+        }
+      }
+      return undefined;
+    };
+  },
+
+  /**
+   * Combines several identities into one key, e.g. a user on a given IP
+   * Resolves to undefined unless every part is found
+   * @param resolvers - Resolvers whose identities are combined
+   */
+  composite<TRequest = any>(...resolvers: IdentityResolver<TRequest>[]): IdentityResolver<TRequest> {
+    return async (request) => {
+      const parts = await Promise.all(resolvers.map((resolver) => resolver(request)));
+      return parts.every(Boolean) ? parts.join('|') : undefined;
+    };
+  },
+};
+
+/**
+ * Resolves the client IP address of a request
+ * Forwarding headers are walked from the right, skipping trusted proxies,
+ * so addresses prepended by the client cannot be used to spoof another IP
+ * Fetch API requests do not expose the connecting address, which is assumed
+ * to be the nearest trusted proxy
+ * @param request - Fetch API request or Express-style request
+ * @param options - Trusted proxy configuration
+ * @returns The client IP, or undefined when it cannot be determined
+ */
+export function getClientIp(request: any, options: ClientIpOptions = {}): string | undefined {
+  const trustedProxies = options.trustedProxies ?? 1;
+  const remoteAddress = normalizeIp(request?.ip ?? request?.socket?.remoteAddress);
+
+  // Without a trusted proxy in front, forwarding headers are set by the client
+  if (trustedProxies === 0 || (Array.isArray(trustedProxies) && remoteAddress && !trustedProxies.includes(remoteAddress))) {
+    return remoteAddress;
+  }
+
+  const forwarded = (getHeader(request, 'x-forwarded-for') || '')
+    .split(',')
+    .map((entry) => normalizeIp(entry))
+    .filter((entry): entry is string => !!entry);
+
+  if (forwarded.length === 0) {
+    return normalizeIp(getHeader(request, 'x-real-ip')) ?? remoteAddress;
+  }
+
+  if (Array.isArray(trustedProxies)) {
+    const client = [...forwarded].reverse().find((address) => !trustedProxies.includes(address));
+    return client ?? forwarded[0];
+  }
+
+  // The nearest proxy is the connecting peer, each further one appended its peer's address
+  return forwarded[Math.max(0, forwarded.length - trustedProxies)];
+}
+
+/**
+ * Strips ports, brackets and the IPv4-mapped IPv6 prefix from an address
+ */
+function normalizeIp(value: string | null | undefined): string | undefined {
+  let address = value?.trim();
+
+  if (!address || address.toLowerCase() === 'unknown') {
+    return undefined;
+  }
+
+  const bracketed = /^\[([^\]]+)\](?::\d+)?$/.exec(address);
+  if (bracketed?.[1]) {
+    address = bracketed[1];
+  } else if (/^\d{1,3}(\.\d{1,3}){3}:\d+$/.test(address)) {
+    address = address.slice(0, address.lastIndexOf(':'));
+  }
+
+  return address.replace(/^::ffff:(?=\d{1,3}(\.\d{1,3}){3}$)/i, '');
+}
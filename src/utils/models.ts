@@ -0,0 +1,129 @@
+import { ArgumentFormat, ArgumentFormats, Normalized, NormalizedModule } from '../types';
+
+const TIMESTAMP_KEY = /(At|Start|End)$/;
+
+/**
+ * Converts an API payload to its normalized model
+ * Properties are camelCased and ISO 8601 timestamps become `Date` objects
+ * @param payload - Payload in the wire format
+ * @returns The normalized model
+ */
+export function toModel<T>(payload: T): Normalized<T> {
+  return convert(payload, toCamelCase, (key, value) =>
+    typeof value === 'string' && TIMESTAMP_KEY.test(key) ? parseTimestamp(value) : value
+  ) as Normalized<T>;
+}
+
+/**
+ * Converts a normalized model back to the wire format
+ * Properties are snake_cased and `Date` objects become ISO 8601 strings
+ * @param model - The normalized model
+ * @returns Payload in the wire format
+ */
+export function toWire<T>(model: Normalized<T>): T {
+  return convert(model, toSnakeCase, (_key, value) => value instanceof Date ? value.toISOString() : value) as T;
+}
+
+/**
+ * Wraps a module so its methods take and return normalized models
+ * @param module - The module to wrap
+ * @param formats - Formats of the arguments that need converting, by method name
+ * @returns The normalized module
+ */
+export function normalizeModule<M extends object, const F extends ArgumentFormats>(
+  module: M,
+  formats: F
+): NormalizedModule<M, F> {
+  return new Proxy(module, {
+    get(target, property) {
+      const value: unknown = Reflect.get(target, property, target);
+      if (typeof value !== 'function' || typeof property !== 'string') {
+        return value;
+      }
+
+      const argumentFormats = formats[property] ?? [];
+
+      return (...args: unknown[]) => {
+        const wireArgs = args.map((arg, index) => toWireArgument(arg, argumentFormats[index] ?? 'value'));
+        const result: unknown = value.apply(target, wireArgs);
+
+        if (result instanceof Promise) {
+          return result.then((response: unknown) => toModel(response));
+        }
+        if (isAsyncIterable(result)) {
+          return normalizeIterator(result);
+        }
+        return result;
+      };
+    },
+  }) as unknown as NormalizedModule<M, F>;
+}
+
+function toWireArgument(arg: unknown, format: ArgumentFormat): unknown {
+  if (arg === undefined || format === 'value') {
+    return arg;
+  }
+  if (format === 'body') {
+    return toWire(arg);
+  }
+
+  // Request options share the names of list options, so only top-level names are converted
+  const options: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(arg as Record<string, unknown>)) {
+    options[toSnakeCase(key)] = key === 'sort' && typeof value === 'string' ? toSnakeCase(value) : value;
+  }
+  return options;
+}
+
+async function* normalizeIterator<T>(items: AsyncIterable<T>): AsyncGenerator<Normalized<T>, void, undefined> {
+  for await (const item of items) {
+    yield toModel(item);
+  }
+}
+
+// Renames the keys of plain objects and arrays deeply, then converts each property value
+function convert(
+  value: unknown,
+  renameKey: (key: string) => string,
+  convertValue: (key: string, value: unknown) => unknown
+): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => convert(item, renameKey, convertValue));
+  }
+  if (!isPlainObject(value)) {
+    return value;
+  }
+
+  const converted: Record<string, unknown> = {};
+  for (const [key, entry] of Object.entries(value)) {
+    const name = renameKey(key);
+    converted[name] = convertValue(name, convert(entry, renameKey, convertValue));
+  }
+  return converted;
+}
+
+function toCamelCase(key: string): string {
+  return key.replace(/_([a-z0-9])/g, (_match, letter: string) => letter.toUpperCase());
+}
+
+function toSnakeCase(key: string): string {
+  return key.replace(/[A-Z]/g, (letter) => `_${letter.toLowerCase()}`);
+}
+
+// Unparseable timestamps are kept as strings rather than becoming invalid dates
+function parseTimestamp(value: string): Date | string {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? value : date;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const prototype: unknown = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+function isAsyncIterable(value: unknown): value is AsyncIterable<unknown> {
+  return typeof value === 'object' && value !== null && Symbol.asyncIterator in value;
+}
@@ -0,0 +1,82 @@
+import { PaginatedResponse, PaginationParams, QueryParams } from '../types';
+
+/**
+ * Picks the pagination query parameters from list options
+ * @param options - List options
+ * @returns Query parameters for the client
+ */
+export function paginationParams(options?: PaginationParams): QueryParams {
+  return {
+    limit: options?.limit,
+    offset: options?.offset,
+    cursor: options?.cursor,
+  };
+}
+
+/**
+ * Picks filter and sort query parameters from list options
+ * @param options - List options
+ * @param fields - Option names sent as query parameters
+ * @returns Query parameters for the client
+ */
+export function pickParams<T extends object>(
+  options: T | undefined,
+  fields: readonly (keyof T & string)[]
+): QueryParams {
+  const params: QueryParams = {};
+
+  for (const field of fields) {
+    params[field] = options?.[field] as QueryParams[string];
+  }
+
+  return params;
+}
+
+/**
+ * Iterates over every item of a paginated listing, fetching pages lazily
+ *
+ * Follows `next_cursor` when the API returns one, otherwise advances the
+ * offset by the page size. Stops on an empty page, when `has_more` is false,
+ * once `count` items were seen, or on a page shorter than `limit`.
+ * @param fetchPage - Fetches one page with the given pagination parameters
+ * @param options - Page size (`limit`) and starting `offset` or `cursor`
+ * @returns Async iterator over the items
+ */
+export async function* paginate<T>(
+  fetchPage: (params: PaginationParams) => Promise<PaginatedResponse<T>>,
+  options: PaginationParams = {}
+): AsyncGenerator<T, void, undefined> {
+  const { limit } = options;
+  let offset = options.offset ?? 0;
+  let cursor = options.cursor;
+
+  while (true) {
+    const page = await fetchPage({
+      ...(limit !== undefined && { limit }),
+      ...(cursor ? { cursor } : offset > 0 && { offset }),
+    });
+    const items = page.data ?? [];
+
+    yield* items;
+
+    if (items.length === 0) {
+      return;
+    }
+
+    if (page.next_cursor) {
+      cursor = page.next_cursor;
+      continue;
+    }
+
+    offset += items.length;
+    const hasMore = page.has_more ?? (
+      page.count !== undefined
+        ? offset < page.count
+        : limit !== undefined && items.length >= limit
+    );
+
+    if (!hasMore || cursor) {
+      return;
+    }
+  }
+}
@@ -0,0 +1,206 @@
+/**
+ * Path matching helpers shared by the Next.js integrations
+ */
+import { EndpointNormalizer } from '../types';
+
+export type PathMatcher = string | RegExp;
+
+const patternCache = new Map<string, RegExp>();
+
+/**
+ * Compiles a Next.js middleware matcher pattern into a regular expression
+ * Supports named segments (`:id`), optional segments (`:id?`) and
+ * catch-all segments (`:path*` for zero or more, `:path+` for one or more)
+ * @param pattern - Matcher pattern, e.g. `/api/:path*`
+ * @returns Regular expression matching the full pathname
+ */
+export function compilePathPattern(pattern: string): RegExp {
+  const cached = patternCache.get(pattern);
+  if (cached) {
+    return cached;
+  }
+
+  const segments = pattern.split('/').filter(Boolean);
+  let source = '';
+
+  for (const segment of segments) {
+    const param = /^:\w+([*+?])?$/.exec(segment);
+
+    if (!param) {
+      source += `/${escapeRegExp(segment)}`;
+    } else if (param[1] === '*') {
+      source += '(?:/.*)?';
+    } else if (param[1] === '+') {
+      source += '/.+';
+    } else if (param[1] === '?') {
+      source += '(?:/[^/]+)?';
+    } else {
+      source += '/[^/]+';
+    }
+  }
+
+  const regex = new RegExp(`^${source || '/'}/?$`);
+  patternCache.set(pattern, regex);
+  return regex;
+}
+
+/**
+ * Checks whether a pathname matches one of the given matchers
+ * @param pathname - Request pathname (without query string)
+ * @param matcher - One or more matcher patterns or regular expressions
+ * @returns True when any matcher applies or no matcher is configured
+ */
+export function matchesPath(
+  pathname: string,
+  matcher?: PathMatcher | PathMatcher[]
+): boolean {
+  if (!matcher) {
+    return true;
+  }
+
+  const matchers = Array.isArray(matcher) ? matcher : [matcher];
+
+  return matchers.some((entry) =>
+    typeof entry === 'string'
+      ? compilePathPattern(entry).test(pathname)
+      : entry.test(pathname)
+  );
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+const routeCache = new Map<string, RegExp>();
+
+/**
+ * Compiles a Next.js file-system route pattern into a regular expression
+ * Supports dynamic segments (`[id]`), catch-all segments (`[...slug]`)
+ * and optional catch-all segments (`[[...slug]]`)
+ * @param route - Route pattern, e.g. `/api/users/[id]`
+ * @returns Regular expression matching a normalized pathname
+ */
+export function compileRoutePattern(route: string): RegExp {
+  const cached = routeCache.get(route);
+  if (cached) {
+    return cached;
+  }
+
+  let source = '';
+
+  for (const segment of route.split('/').filter(Boolean)) {
+    if (/^\[\[\.\.\.\w+\]\]$/.test(segment)) {
+      source += '(?:/.*)?';
+    } else if (/^\[\.\.\.\w+\]$/.test(segment)) {
+      source += '/.+';
+    } else if (/^\[\w+\]$/.test(segment)) {
+      source += '/[^/]+';
+    } else {
+      source += `/${escapeRegExp(segment)}`;
+    }
+  }
+
+  const regex = new RegExp(`^${source || '/'}$`);
+  routeCache.set(route, regex);
+  return regex;
+}
+
+/**
+ * Strips the query string, hash, base path and trailing slash from a path
+ * @param path - Request path or URL
+ * @param basePath - Base path to remove, e.g. `/docs`
+ * @returns Normalized pathname, `/` for the root
+ */
+export function normalizePathname(path: string, basePath?: string): string {
+  let pathname = (path.split(/[?#]/)[0] || '/').replace(/^[a-z][a-z\d+.-]*:\/\/[^/]*/i, '');
+  const base = basePath?.replace(/\/+$/, '');
+
+  if (base && (pathname === base || pathname.startsWith(`${base}/`))) {
+    pathname = pathname.slice(base.length);
+  }
+
+  pathname = pathname.replace(/\/+$/, '');
+  return pathname.startsWith('/') ? pathname : `/${pathname}`;
+}
+
+/**
+ * Rebuilds the route pattern of a pathname from its segment params,
+ * e.g. `/api/users/123` with `{ id: '123' }` becomes `/api/users/[id]`
+ * Catch-all params (arrays) are matched against the trailing segments
+ * @param pathname - Normalized pathname
+ * @param params - Route segment params, as passed to App Router handlers
+ * @returns Route pattern
+ */
+export function routeFromParams(
+  pathname: string,
+  params: Record<string, string | string[] | undefined>
+): string {
+  const segments = pathname.split('/').filter(Boolean).map(safeDecode);
+  const route: string[] = [...segments];
+  const replaced = new Set<number>();
+  let catchAll: { name: string; length: number } | undefined;
+
+  for (const [name, value] of Object.entries(params)) {
+    if (Array.isArray(value)) {
+      const start = segments.length - value.length;
+      if (value.length > 0 && start >= 0 && value.every((part, i) => segments[start + i] === part)) {
+        catchAll = { name, length: value.length };
+      }
+      continue;
+    }
+
+    const index = segments.findIndex((segment, i) => segment === value && !replaced.has(i));
+    if (value !== undefined && index >= 0) {
+      route[index] = `[${name}]`;
+      replaced.add(index);
+    }
+  }
+
+  if (catchAll) {
+    route.splice(route.length - catchAll.length, catchAll.length, `[...${catchAll.name}]`);
+  }
+
+  return `/${route.join('/')}`;
+}
+
+/**
+ * Resolves how a wrapper maps request paths to the endpoint sent to Limitly:
+ * a custom `normalizeEndpoint` function, the first matching `routes` pattern,
+ * the route rebuilt from segment params, or the normalized pathname
+ * @param options - Wrapper options
+ * @returns Function returning the endpoint for a request
+ */
+export function resolveEndpointNormalizer<TRequest>(options?: {
+  basePath?: string;
+  routes?: string[];
+  normalizeEndpoint?: EndpointNormalizer<TRequest>;
+}) {
+  return async (
+    path: string,
+    request: TRequest,
+    params?: Record<string, string | string[] | undefined>
+  ): Promise<string> => {
+    const pathname = normalizePathname(path, options?.basePath);
+
+    if (options?.normalizeEndpoint) {
+      return options.normalizeEndpoint(pathname, request);
+    }
+
+    const route = options?.routes?.find((entry) => compileRoutePattern(entry).test(pathname));
+    if (route) {
+      return route;
+    }
+
+    return params && Object.keys(params).length > 0
+      ? routeFromParams(pathname, params)
+      : pathname;
+  };
+}
+
+function safeDecode(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+}